@@ -0,0 +1,14 @@
+/**
+ * Load environment variables from the .env file and the config file.
+ * Imported first by index.ts, so the constants, which read the environment when they are imported, see them.
+ */
+import * as dotenv from "dotenv";
+import { applyConfigFile } from "./helper/config-helper.js";
+
+dotenv.config();
+try {
+  applyConfigFile(process.argv.slice(2), process.env);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
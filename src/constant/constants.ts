@@ -7,7 +7,9 @@
  */
 export enum ApiEnvironment {
   SANDBOX = "sandbox",
-  PRODUCTION = "production"
+  PRODUCTION = "production",
+  // answered locally from the loaded OpenAPI specs, urls keep the production domain
+  MOCK = "mock"
 }
 /**
  * Utility to find ApiEnvironment by string value
@@ -33,9 +35,41 @@ export const RECALL_SPEC_BY_PROMPT_URL = "https://api.ebay.com/developer/mcp/v1/
 export const RECALL_SPEC_WITH_FIELD_URL = "https://api.ebay.com/developer/mcp/v1/search/%s?operationId=%s";
 
 /**
- * Required environment variable names for the application
+ * Required environment variable groups for the application, at least one group must be fully set:
+ * either a pre-minted token, or a client id/secret pair used to mint application tokens
  */
-export const REQUIRED_ENV_VARS = ["EBAY_CLIENT_TOKEN"];
+export const REQUIRED_ENV_VAR_GROUPS = [
+  ["EBAY_CLIENT_TOKEN"],
+  ["EBAY_CLIENT_ID", "EBAY_CLIENT_SECRET"],
+];
+
+/**
+ * OAuth token endpoint, differentiated by api environment
+ */
+export const OAUTH_TOKEN_URL = {
+  [ApiEnvironment.SANDBOX]: "https://api.sandbox.ebay.com/identity/v1/oauth2/token",
+  [ApiEnvironment.PRODUCTION]: "https://api.ebay.com/identity/v1/oauth2/token",
+  [ApiEnvironment.MOCK]: "https://api.ebay.com/identity/v1/oauth2/token",
+};
+
+/**
+ * OAuth consent page users are sent to for the authorization code grant, differentiated by api environment
+ */
+export const OAUTH_AUTHORIZE_URL = {
+  [ApiEnvironment.SANDBOX]: "https://auth.sandbox.ebay.com/oauth2/authorize",
+  [ApiEnvironment.PRODUCTION]: "https://auth.ebay.com/oauth2/authorize",
+  [ApiEnvironment.MOCK]: "https://auth.ebay.com/oauth2/authorize",
+};
+
+/**
+ * Default scope requested when minting application tokens
+ */
+export const DEFAULT_OAUTH_SCOPE = "https://api.ebay.com/oauth/api_scope";
+
+/**
+ * Minted tokens are refreshed when they are this close to expiry
+ */
+export const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
 
 /**
  * API domain name, differentiated by api environment
@@ -43,6 +77,7 @@ export const REQUIRED_ENV_VARS = ["EBAY_CLIENT_TOKEN"];
 export const DOMAIN_NAME = {
   [ApiEnvironment.SANDBOX]: "api.sandbox.ebay.com",
   [ApiEnvironment.PRODUCTION]: "api.ebay.com",
+  [ApiEnvironment.MOCK]: "api.ebay.com",
 };
 
 /**
@@ -51,4 +86,76 @@ export const DOMAIN_NAME = {
 export const SUPPORTED_CALLING_METHODS = {
   [ApiEnvironment.SANDBOX]: ["get", "put", "post", "delete", "options", "head", "patch", "trace"],
   [ApiEnvironment.PRODUCTION]: ["get"],
+  [ApiEnvironment.MOCK]: ["get", "put", "post", "delete", "options", "head", "patch", "trace"],
+};
+
+/**
+ * How long the user has to confirm an allowlisted write operation in production
+ */
+export const WRITE_CONFIRMATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Marketplace and locale headers, with the environment variables holding their defaults
+ */
+export const LOCALE_HEADER_DEFAULTS: Record<string, string> = {
+  "X-EBAY-C-MARKETPLACE-ID": "EBAY_MARKETPLACE_ID",
+  "Accept-Language": "EBAY_ACCEPT_LANGUAGE",
+  "Content-Language": "EBAY_CONTENT_LANGUAGE",
+  "X-EBAY-C-ENDUSERCTX": "EBAY_END_USER_CONTEXT",
 };
+
+/**
+ * Default address of the HTTP transport, only reachable from the local machine
+ */
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+export const DEFAULT_HTTP_PORT = 3000;
+
+/**
+ * Default caps of automatic pagination, so a single tool call can't fetch unbounded results
+ */
+export const DEFAULT_PAGINATION_MAX_PAGES = 10;
+export const DEFAULT_PAGINATION_MAX_ITEMS = 1000;
+
+/**
+ * Default maximum number of characters of a tool response, longer responses are truncated
+ */
+export const DEFAULT_MAX_OUTPUT_CHARS = 50000;
+
+/**
+ * Default retry policy of eBay API calls, for throttling (429) and transient failures
+ */
+export const DEFAULT_RETRY_MAX_ATTEMPTS = 3;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+export const DEFAULT_RETRY_MAX_DELAY_MS = 10000;
+export const DEFAULT_RETRY_BUDGET_MS = 30000;
+
+/**
+ * Default client-side rate limit of each API family, in calls per second
+ */
+export const DEFAULT_RATE_LIMIT_PER_SECOND = 5;
+
+/**
+ * eBay Developer Analytics endpoint reporting the application's call limits and remaining quota
+ */
+export const RATE_LIMIT_URL = {
+  [ApiEnvironment.SANDBOX]: "https://api.sandbox.ebay.com/developer/analytics/v1_beta/rate_limit/",
+  [ApiEnvironment.PRODUCTION]: "https://api.ebay.com/developer/analytics/v1_beta/rate_limit/",
+  [ApiEnvironment.MOCK]: "https://api.ebay.com/developer/analytics/v1_beta/rate_limit/",
+};
+
+/**
+ * Default timeouts of eBay API calls: establishing the connection, and receiving the whole response
+ */
+export const DEFAULT_HTTP_CONNECT_TIMEOUT_MS = 10000;
+export const DEFAULT_HTTP_READ_TIMEOUT_MS = 60000;
+
+/**
+ * Default rotation of the audit log: size at which the file is rotated, and how many rotated files are kept
+ */
+export const DEFAULT_AUDIT_LOG_MAX_BYTES = 10 * 1024 * 1024;
+export const DEFAULT_AUDIT_LOG_MAX_FILES = 5;
+
+/**
+ * Changes to the spec url file and the specs it lists are batched for this long before the specs are reloaded
+ */
+export const SPEC_WATCH_DEBOUNCE_MS = 500;
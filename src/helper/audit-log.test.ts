@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { readAuditEntries, recordAuditEntry, redactFields, runWithAuditContext } from "./audit-log.js";
+
+describe("audit log", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ebay-audit-"));
+    process.env.EBAY_AUDIT_LOG_PATH = path.join(dir, "audit.jsonl");
+  });
+
+  afterEach(() => {
+    delete process.env.EBAY_AUDIT_LOG_PATH;
+    delete process.env.EBAY_AUDIT_LOG_MAX_BYTES;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("records calls with their context, redacting tokens and sensitive fields", () => {
+    process.env.EBAY_AUDIT_REDACT_FIELDS = "email";
+    runWithAuditContext({ tool: "createOffer", operationId: "createOffer" }, () => recordAuditEntry(
+      { method: "post", url: "https://api.ebay.com/sell/inventory/v1/offer", params: { token: "t1" }, data: { sku: "a", code: "NEW", contact: { email: "x@y.z" } } },
+      { startedAt: Date.now(), attempts: 1, error: new Error("Header Authorization: Bearer abc.def rejected") },
+    ));
+    delete process.env.EBAY_AUDIT_REDACT_FIELDS;
+
+    const [entry] = readAuditEntries({ limit: 10 });
+    expect(entry).toMatchObject({
+      tool: "createOffer",
+      operationId: "createOffer",
+      kind: "api_call",
+      method: "POST",
+      url: "https://api.ebay.com/sell/inventory/v1/offer?token=***",
+      outcome: "error",
+      error: "Header Authorization: Bearer *** rejected",
+      requestBody: { sku: "a", code: "NEW", contact: { email: "***" } },
+    });
+    expect(redactFields([{ Password: "p" }], ["password"])).toEqual([{ Password: "***" }]);
+  });
+
+  it("redacts the authorization code of token requests only", () => {
+    recordAuditEntry(
+      { method: "post", url: "https://api.ebay.com/identity/v1/oauth2/token", data: "grant_type=authorization_code&code=v%5E1.1&redirect_uri=app" },
+      { startedAt: Date.now(), attempts: 1 },
+    );
+
+    const [entry] = readAuditEntries({ limit: 10 });
+    expect(entry.requestBody).toBe("grant_type=authorization_code&code=***&redirect_uri=app");
+  });
+
+  it("rotates by size and reads the newest entries first across files", () => {
+    process.env.EBAY_AUDIT_LOG_MAX_BYTES = "300";
+    for (const operationId of ["a", "b", "c"]) {
+      runWithAuditContext({ tool: "call_ebay_api", operationId }, () => recordAuditEntry(
+        { method: "get", url: "https://api.ebay.com/buy/browse/v1/item_summary/search" },
+        { startedAt: Date.now(), attempts: 1, response: { status: 200, data: {}, headers: {} } as never },
+      ));
+    }
+
+    expect(fs.existsSync(`${process.env.EBAY_AUDIT_LOG_PATH}.1`)).toBe(true);
+    expect(readAuditEntries({ limit: 2 }).map(entry => entry.operationId)).toEqual(["c", "b"]);
+    expect(readAuditEntries({ limit: 10, operationId: "a" })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Append-only JSONL audit log of the calls made to eBay, enabled with EBAY_AUDIT_LOG_PATH.
+ * Tool handlers run within an audit context, so every call is attributed to the tool and operation that made it.
+ */
+import axios, { type AxiosRequestConfig, type AxiosResponse } from "axios";
+import { AsyncLocalStorage } from "async_hooks";
+import * as fs from "fs";
+import * as path from "path";
+import { DEFAULT_AUDIT_LOG_MAX_BYTES, DEFAULT_AUDIT_LOG_MAX_FILES } from "../constant/constants.js";
+import { previewRequest } from "./request-preview.js";
+
+const REDACTED = "***";
+const DEFAULT_SENSITIVE_FIELDS = ["access_token", "refresh_token", "client_secret", "password", "token"];
+// parameters of the OAuth token exchange, only redacted on token requests: elsewhere "code" is ordinary data
+const OAUTH_TOKEN_PATH = "/identity/v1/oauth2/token";
+const OAUTH_SENSITIVE_FIELDS = ["code", "code_verifier"];
+
+/**
+ * Tool invocation the calls are made for
+ */
+export interface AuditContext {
+  tool: string;
+  operationId?: string;
+  // spec lookups are calls made to find the OpenAPI spec of an operation, not calls of the operation itself,
+  // token requests mint, exchange or refresh the OAuth tokens the calls are authorized with
+  kind?: AuditEntry["kind"];
+}
+
+/**
+ * Entry of the audit log, one per call sent to eBay (including its retries)
+ */
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  operationId?: string;
+  kind: "api_call" | "spec_lookup" | "token_request";
+  sessionId?: string;
+  method: string;
+  url: string;
+  status?: number;
+  durationMs: number;
+  attempts: number;
+  requestBytes: number;
+  responseBytes: number;
+  outcome: "success" | "error";
+  error?: string;
+  requestBody?: unknown;
+}
+
+/**
+ * Filters of an audit log query
+ */
+export interface AuditQuery {
+  limit: number;
+  tool?: string;
+  operationId?: string;
+  outcome?: AuditEntry["outcome"];
+  sessionId?: string;
+}
+
+const auditContext = new AsyncLocalStorage<AuditContext>();
+
+/**
+ * Whether the audit log is enabled
+ */
+export function isAuditLogEnabled(): boolean {
+  return !!process.env.EBAY_AUDIT_LOG_PATH;
+}
+
+/**
+ * Run the function within the audit context, calls it makes are logged with the context's tool and operation
+ */
+export function runWithAuditContext<T>(context: AuditContext, fn: () => T): T {
+  return auditContext.run(context, fn);
+}
+
+/**
+ * Run the function within the current audit context, changed by the given fields
+ */
+export function runWithinAuditContext<T>(context: Partial<AuditContext>, fn: () => T): T {
+  const current = auditContext.getStore() || { tool: "unknown" };
+  return auditContext.run({ ...current, ...context }, fn);
+}
+
+/**
+ * Append the entry of a finished call to the audit log, tokens and sensitive fields are redacted.
+ * Failures to write are logged and never fail the call.
+ */
+export function recordAuditEntry(
+  config: AxiosRequestConfig,
+  result: { startedAt: number; attempts: number; sessionId?: string; response?: AxiosResponse; error?: unknown },
+): void {
+  if (!isAuditLogEnabled()) {
+    return;
+  }
+  try {
+    const context = auditContext.getStore() || { tool: "unknown" };
+    const sensitiveFields = getSensitiveFields(config);
+    const response = result.response || (axios.isAxiosError(result.error) ? result.error.response : undefined);
+    const entry: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      tool: context.tool,
+      operationId: context.operationId,
+      kind: context.kind || "api_call",
+      sessionId: result.sessionId,
+      method: (config.method || "get").toUpperCase(),
+      url: redactUrl(previewRequest(config).url, sensitiveFields),
+      status: response?.status,
+      durationMs: Date.now() - result.startedAt,
+      attempts: result.attempts,
+      requestBytes: measureBody(config.data),
+      responseBytes: measureResponse(response),
+      outcome: result.error ? "error" : "success",
+    };
+    if (result.error) {
+      entry.error = redactTokens(result.error instanceof Error ? result.error.message : String(result.error));
+    }
+    if (config.data !== undefined && config.data !== null) {
+      entry.requestBody = redactRequestBody(config, sensitiveFields);
+    }
+    appendAuditLine(JSON.stringify(entry));
+  } catch (error) {
+    console.error("Failed to write the audit log:", error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Read the most recent audit entries matching the query, newest first (rotated files are read as needed)
+ */
+export function readAuditEntries(query: AuditQuery): AuditEntry[] {
+  const logPath = process.env.EBAY_AUDIT_LOG_PATH;
+  if (!logPath) {
+    return [];
+  }
+  const entries: AuditEntry[] = [];
+  for (let index = 0; index <= getMaxFiles() && entries.length < query.limit; index++) {
+    const filePath = index === 0 ? logPath : `${logPath}.${index}`;
+    if (!fs.existsSync(filePath)) {
+      continue;
+    }
+    const lines = fs.readFileSync(filePath, "utf-8").split("\n").reverse();
+    for (const line of lines) {
+      const entry = parseEntry(line);
+      if (entry && matchesQuery(entry, query)) {
+        entries.push(entry);
+        if (entries.length >= query.limit) {
+          break;
+        }
+      }
+    }
+  }
+  return entries;
+}
+
+/**
+ * Replace the values of sensitive fields at every level of the value
+ */
+export function redactFields(value: unknown, sensitiveFields: string[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => redactFields(item, sensitiveFields));
+  }
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+    [key, sensitiveFields.includes(key.toLowerCase()) ? REDACTED : redactFields(item, sensitiveFields)]));
+}
+
+/**
+ * Fields redacted in urls and request bodies: the defaults plus the ones listed in EBAY_AUDIT_REDACT_FIELDS,
+ * and the OAuth parameters on token requests
+ */
+function getSensitiveFields(config: AxiosRequestConfig): string[] {
+  const configured = (process.env.EBAY_AUDIT_REDACT_FIELDS || "").split(",").map(field => field.trim().toLowerCase()).filter(Boolean);
+  return [...DEFAULT_SENSITIVE_FIELDS, ...configured, ...(isTokenRequest(config) ? OAUTH_SENSITIVE_FIELDS : [])];
+}
+
+function isTokenRequest(config: AxiosRequestConfig): boolean {
+  try {
+    return new URL(config.url || "").pathname.endsWith(OAUTH_TOKEN_PATH);
+  } catch (_error) {
+    return false;
+  }
+}
+
+/**
+ * Redact the request body, token requests send their parameters form encoded
+ */
+function redactRequestBody(config: AxiosRequestConfig, sensitiveFields: string[]): unknown {
+  if (typeof config.data !== "string" || !isTokenRequest(config)) {
+    return redactFields(config.data, sensitiveFields);
+  }
+  const params = new URLSearchParams(config.data);
+  for (const key of [...params.keys()]) {
+    if (sensitiveFields.includes(key.toLowerCase())) {
+      params.set(key, REDACTED);
+    }
+  }
+  return params.toString();
+}
+
+function redactUrl(url: string, sensitiveFields: string[]): string {
+  try {
+    const parsed = new URL(url);
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (sensitiveFields.includes(key.toLowerCase())) {
+        parsed.searchParams.set(key, REDACTED);
+      }
+    }
+    return parsed.toString();
+  } catch (_error) {
+    return url;
+  }
+}
+
+function redactTokens(text: string): string {
+  return text.replace(/(Bearer|Basic)\s+[^\s"']+/gi, `$1 ${REDACTED}`);
+}
+
+function measureBody(data: unknown): number {
+  if (data === undefined || data === null) {
+    return 0;
+  }
+  return Buffer.byteLength(typeof data === "string" ? data : JSON.stringify(data));
+}
+
+function measureResponse(response: AxiosResponse | undefined): number {
+  const contentLength = Number(response?.headers?.["content-length"]);
+  return Number.isInteger(contentLength) && contentLength >= 0 ? contentLength : measureBody(response?.data);
+}
+
+/**
+ * Append a line, rotating the file first when the line would take it over the size limit
+ */
+function appendAuditLine(line: string): void {
+  const logPath = process.env.EBAY_AUDIT_LOG_PATH!;
+  fs.mkdirSync(path.dirname(logPath), { recursive: true, mode: 0o700 });
+  const size = fs.existsSync(logPath) ? fs.statSync(logPath).size : 0;
+  if (size > 0 && size + Buffer.byteLength(line) + 1 > getMaxBytes()) {
+    rotateAuditLog(logPath);
+  }
+  fs.appendFileSync(logPath, `${line}\n`, { encoding: "utf-8", mode: 0o600 });
+}
+
+/**
+ * Shift the rotated files (audit.jsonl.1 is the newest), dropping the oldest
+ */
+function rotateAuditLog(logPath: string): void {
+  const maxFiles = getMaxFiles();
+  fs.rmSync(`${logPath}.${maxFiles}`, { force: true });
+  for (let index = maxFiles - 1; index >= 1; index--) {
+    if (fs.existsSync(`${logPath}.${index}`)) {
+      fs.renameSync(`${logPath}.${index}`, `${logPath}.${index + 1}`);
+    }
+  }
+  fs.renameSync(logPath, `${logPath}.1`);
+}
+
+function parseEntry(line: string): AuditEntry | undefined {
+  if (!line.trim()) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(line) as AuditEntry;
+  } catch (_error) {
+    return undefined;
+  }
+}
+
+function matchesQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  return (!query.tool || entry.tool === query.tool)
+    && (!query.operationId || entry.operationId === query.operationId)
+    && (!query.outcome || entry.outcome === query.outcome)
+    && (!query.sessionId || entry.sessionId === query.sessionId);
+}
+
+function getMaxBytes(): number {
+  return readPositiveInteger(process.env.EBAY_AUDIT_LOG_MAX_BYTES, DEFAULT_AUDIT_LOG_MAX_BYTES);
+}
+
+function getMaxFiles(): number {
+  return readPositiveInteger(process.env.EBAY_AUDIT_LOG_MAX_FILES, DEFAULT_AUDIT_LOG_MAX_FILES);
+}
+
+function readPositiveInteger(value: string | undefined, defaultValue: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : defaultValue;
+}
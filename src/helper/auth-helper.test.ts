@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { readAuditEntries, runWithAuditContext } from "./audit-log.js";
+import {
+  buildUserConsentUrl, exchangeAuthorizationCode, getCredentialsFromHeaders, getCredentialsFromInitializeMeta, getAccessToken, getGrantedScopes,
+} from "./auth-helper.js";
+
+const httpClient = vi.hoisted(() => ({ post: vi.fn() }));
+vi.mock("./http-client.js", () => ({ getHttpClient: () => httpClient }));
+
+describe("session credentials", () => {
+  it("reads credentials from request headers", () => {
+    expect(getCredentialsFromHeaders({
+      "x-ebay-client-id": "id",
+      "x-ebay-client-secret": "secret",
+      "x-ebay-client-scopes": "scope1, scope2",
+    })).toEqual({ clientId: "id", clientSecret: "secret", scopes: ["scope1", "scope2"] });
+    expect(getCredentialsFromHeaders({ "x-ebay-client-id": "id" })).toBeUndefined();
+  });
+
+  it("reads credentials from the initialize request meta", () => {
+    expect(getCredentialsFromInitializeMeta({ ebay: { clientToken: "token", scopes: ["scope1"] } }))
+      .toEqual({ clientToken: "token", scopes: ["scope1"] });
+    expect(getCredentialsFromInitializeMeta({ progressToken: 1 })).toBeUndefined();
+  });
+
+  it("returns each session's own static token", async () => {
+    expect(await getAccessToken({ clientToken: "a", sessionId: "1" })).toBe("a");
+    expect(await getAccessToken({ clientToken: "b", sessionId: "2" })).toBe("b");
+  });
+});
+
+describe("getGrantedScopes", () => {
+  it("reports the scopes of static tokens only when they are given", () => {
+    expect(getGrantedScopes({ clientToken: "a" })).toBeUndefined();
+    expect(getGrantedScopes({ clientToken: "a", scopes: ["scope1"] })).toEqual(["scope1"]);
+  });
+
+  it("reports the scopes minted application tokens are requested with", () => {
+    expect(getGrantedScopes({ clientId: "id", clientSecret: "secret" })).toEqual(["https://api.ebay.com/oauth/api_scope"]);
+    expect(getGrantedScopes({ clientId: "id", clientSecret: "secret", scopes: ["scope1"] })).toEqual(["scope1"]);
+  });
+});
+
+describe("token requests", () => {
+  afterEach(() => {
+    httpClient.post.mockReset();
+    delete process.env.EBAY_AUDIT_LOG_PATH;
+  });
+
+  it("records token requests in the audit log", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ebay-token-audit-"));
+    process.env.EBAY_AUDIT_LOG_PATH = path.join(dir, "audit.jsonl");
+    httpClient.post.mockResolvedValue({ status: 200, headers: {}, data: { access_token: "minted", expires_in: 7200 } });
+
+    const token = await runWithAuditContext({ tool: "search" }, () =>
+      getAccessToken({ clientId: "audited-app", clientSecret: "secret", sessionId: "s1" }));
+
+    expect(token).toBe("minted");
+    expect(readAuditEntries({ limit: 10 })).toMatchObject([{
+      tool: "search",
+      kind: "token_request",
+      sessionId: "s1",
+      method: "POST",
+      url: "https://api.ebay.com/identity/v1/oauth2/token",
+      status: 200,
+      outcome: "success",
+    }]);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe("user tokens", () => {
+  const inventoryScope = "https://api.ebay.com/oauth/api_scope/sell.inventory";
+  const credentials = { clientId: "consent-app", clientSecret: "secret", redirectUri: "Test-RuName", sessionId: "consent" };
+
+  afterEach(() => {
+    httpClient.post.mockReset();
+    delete process.env.EBAY_USER_SCOPES;
+  });
+
+  it("rejects a redirect url whose state was not issued by this server", async () => {
+    buildUserConsentUrl(credentials);
+
+    await expect(exchangeAuthorizationCode("https://example.com/accepted?code=abc&state=forged", credentials))
+      .rejects.toThrow("does not match any consent url");
+    expect(httpClient.post).not.toHaveBeenCalled();
+  });
+
+  it("uses the application token for operations only its scopes cover", async () => {
+    process.env.EBAY_USER_SCOPES = inventoryScope;
+    const { state } = buildUserConsentUrl(credentials);
+    httpClient.post.mockResolvedValueOnce({ status: 200, headers: {}, data: { access_token: "user-token", expires_in: 7200, refresh_token: "refresh" } });
+    await exchangeAuthorizationCode(`https://example.com/accepted?code=abc&state=${state}`, credentials);
+    httpClient.post.mockResolvedValueOnce({ status: 200, headers: {}, data: { access_token: "app-token", expires_in: 7200 } });
+    const sellSecurity = [{ api_auth: [inventoryScope] }];
+    const browseSecurity = [{ api_auth: ["https://api.ebay.com/oauth/api_scope"] }];
+
+    expect(await getAccessToken(credentials, false, sellSecurity)).toBe("user-token");
+    expect(getGrantedScopes(credentials, sellSecurity)).toEqual([inventoryScope]);
+    expect(await getAccessToken(credentials, false, browseSecurity)).toBe("app-token");
+    expect(getGrantedScopes(credentials, browseSecurity)).toEqual(["https://api.ebay.com/oauth/api_scope"]);
+    expect(await getAccessToken(credentials)).toBe("user-token");
+  });
+});
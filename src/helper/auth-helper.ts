@@ -0,0 +1,434 @@
+/**
+ * Auth helper functions, including minting, caching and refreshing eBay OAuth access tokens
+ * for both application tokens (client credentials grant) and user tokens (authorization code grant).
+ */
+import axios, { type AxiosRequestConfig } from "axios";
+import * as crypto from "crypto";
+import { type IncomingHttpHeaders } from "http";
+import { type OpenAPIV3 } from "openapi-types";
+import {
+  DEFAULT_OAUTH_SCOPE, OAUTH_AUTHORIZE_URL, OAUTH_TOKEN_URL, TOKEN_REFRESH_MARGIN_MS, USER_ENVIRONMENT,
+} from "../constant/constants.js";
+import { recordAuditEntry, runWithinAuditContext } from "./audit-log.js";
+import { getHttpClient } from "./http-client.js";
+import { loadUserToken, saveUserToken, type StoredUserToken } from "./token-store.js";
+import { findMissingScopes } from "./validation-helper.js";
+
+/**
+ * Credentials used to authorize eBay API calls: a pre-minted token or a client id/secret pair
+ */
+export interface EbayCredentials {
+  clientToken?: string;
+  clientId?: string;
+  clientSecret?: string;
+  scopes?: string[];
+  redirectUri?: string;
+  // set on credentials of a shared server session, whose user token is kept in memory only
+  sessionId?: string;
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+interface TokenResponse {
+  access_token: string;
+  expires_in: number;
+  refresh_token?: string;
+  refresh_token_expires_in?: number;
+}
+
+interface UserTokenState {
+  token?: StoredUserToken;
+  loaded: boolean;
+  pendingRefresh?: Promise<StoredUserToken>;
+  // state values of consent urls handed out and not yet exchanged
+  consentStates: Set<string>;
+}
+
+// eBay user refresh tokens are valid for 18 months when the token endpoint doesn't say otherwise
+const DEFAULT_REFRESH_TOKEN_LIFETIME_SECONDS = 47304000;
+// user token context outside shared server sessions, the only one persisted in the token store
+const LOCAL_USER_CONTEXT = "local";
+
+// minted tokens keyed by client credentials and scopes, shared by every request using the same credentials
+const tokenCache = new Map<string, CachedToken>();
+// in-flight token requests, so concurrent calls don't mint the same token twice
+const pendingTokenRequests = new Map<string, Promise<CachedToken>>();
+
+// user tokens keyed by session id (or LOCAL_USER_CONTEXT), undefined until a consent flow has completed
+const userTokenStates = new Map<string, UserTokenState>();
+
+/**
+ * Read credentials from environment variables
+ */
+export function getCredentialsFromEnv(): EbayCredentials {
+  return {
+    clientToken: process.env.EBAY_CLIENT_TOKEN || undefined,
+    clientId: process.env.EBAY_CLIENT_ID || undefined,
+    clientSecret: process.env.EBAY_CLIENT_SECRET || undefined,
+    scopes: parseScopes(process.env.EBAY_CLIENT_SCOPES),
+    redirectUri: process.env.EBAY_REDIRECT_URI || undefined,
+  };
+}
+
+/**
+ * Read credentials a client supplied with its HTTP request headers, returns undefined if it supplied none
+ */
+export function getCredentialsFromHeaders(headers: IncomingHttpHeaders): EbayCredentials | undefined {
+  return normalizeCredentials({
+    clientToken: readHeader(headers, "x-ebay-client-token"),
+    clientId: readHeader(headers, "x-ebay-client-id"),
+    clientSecret: readHeader(headers, "x-ebay-client-secret"),
+    scopes: readHeader(headers, "x-ebay-client-scopes"),
+    redirectUri: readHeader(headers, "x-ebay-redirect-uri"),
+  });
+}
+
+/**
+ * Read credentials a client supplied in the `_meta.ebay` field of its initialize request, returns undefined if it supplied none
+ */
+export function getCredentialsFromInitializeMeta(meta: Record<string, unknown> | undefined): EbayCredentials | undefined {
+  const ebay = meta?.ebay;
+  if (!ebay || typeof ebay !== "object") {
+    return undefined;
+  }
+  const readField = (name: string) => {
+    const value = (ebay as Record<string, unknown>)[name];
+    return typeof value === "string" ? value : Array.isArray(value) ? value.join(" ") : undefined;
+  };
+  return normalizeCredentials({
+    clientToken: readField("clientToken"),
+    clientId: readField("clientId"),
+    clientSecret: readField("clientSecret"),
+    scopes: readField("scopes"),
+    redirectUri: readField("redirectUri"),
+  });
+}
+
+/**
+ * Parse space or comma separated scopes, returns undefined if nothing is set
+ */
+export function parseScopes(value: string | undefined): string[] | undefined {
+  const scopes = (value || "").split(/[\s,]+/).filter(scope => scope.length > 0);
+  return scopes.length > 0 ? scopes : undefined;
+}
+
+/**
+ * Whether the credentials allow minting application tokens
+ */
+export function hasClientCredentials(credentials: EbayCredentials): boolean {
+  return Boolean(credentials.clientId && credentials.clientSecret);
+}
+
+/**
+ * Whether the authorization code flow is configured, it needs client credentials and the app's redirect URI (RuName)
+ */
+export function isUserConsentConfigured(credentials: EbayCredentials): boolean {
+  return hasClientCredentials(credentials) && Boolean(credentials.redirectUri);
+}
+
+/**
+ * Get a live access token for an operation with the given security requirements. Prefers the user token when a consent flow
+ * has completed, unless it lacks the operation's scopes and the application token has them; then a cached minted
+ * application token refreshed before expiry, then the static client token.
+ */
+export async function getAccessToken(
+  credentials: EbayCredentials,
+  forceRefresh = false,
+  security?: OpenAPIV3.SecurityRequirementObject[],
+): Promise<string> {
+  if (!hasClientCredentials(credentials)) {
+    return credentials.clientToken || "";
+  }
+  if (usesUserToken(credentials, security)) {
+    return getUserAccessToken(credentials, forceRefresh);
+  }
+  return getApplicationAccessToken(credentials, forceRefresh);
+}
+
+/**
+ * Get a new access token of the same kind (user or application token) in place of one eBay rejected with 401
+ */
+export async function refreshAccessToken(credentials: EbayCredentials, rejectedToken: string | undefined): Promise<string> {
+  if (!hasClientCredentials(credentials)) {
+    return credentials.clientToken || "";
+  }
+  const storedUserToken = getStoredUserToken(credentials);
+  if (storedUserToken && storedUserToken.accessToken === rejectedToken) {
+    return getUserAccessToken(credentials, true);
+  }
+  return getApplicationAccessToken(credentials, true);
+}
+
+/**
+ * Scopes granted to the token getAccessToken returns for the same security requirements,
+ * undefined when unknown (a static token without scopes)
+ */
+export function getGrantedScopes(credentials: EbayCredentials, security?: OpenAPIV3.SecurityRequirementObject[]): string[] | undefined {
+  if (!hasClientCredentials(credentials)) {
+    return credentials.scopes;
+  }
+  if (usesUserToken(credentials, security)) {
+    return getStoredUserToken(credentials)!.scopes;
+  }
+  return credentials.scopes || [DEFAULT_OAUTH_SCOPE];
+}
+
+/**
+ * Whether calls with the security requirements use the stored user token rather than the application token
+ */
+function usesUserToken(credentials: EbayCredentials, security: OpenAPIV3.SecurityRequirementObject[] | undefined): boolean {
+  const storedUserToken = getStoredUserToken(credentials);
+  if (!storedUserToken) {
+    return false;
+  }
+  return findMissingScopes(security, storedUserToken.scopes).length === 0
+    || findMissingScopes(security, credentials.scopes || [DEFAULT_OAUTH_SCOPE]).length > 0;
+}
+
+async function getApplicationAccessToken(credentials: EbayCredentials, forceRefresh: boolean): Promise<string> {
+  const cacheKey = buildTokenCacheKey(credentials);
+  const cached = tokenCache.get(cacheKey);
+  if (!forceRefresh && cached && !isExpiring(cached.expiresAt)) {
+    return cached.accessToken;
+  }
+
+  let pending = pendingTokenRequests.get(cacheKey);
+  if (!pending) {
+    pending = mintApplicationToken(credentials).finally(() => pendingTokenRequests.delete(cacheKey));
+    pendingTokenRequests.set(cacheKey, pending);
+  }
+  const token = await pending;
+  tokenCache.set(cacheKey, token);
+  return token.accessToken;
+}
+
+/**
+ * Forget the user token and pending consents of a closed shared server session
+ */
+export function forgetSessionCredentials(sessionId: string): void {
+  userTokenStates.delete(sessionId);
+}
+
+/**
+ * Build the consent page url the user opens to grant the app access to their account
+ */
+export function buildUserConsentUrl(credentials: EbayCredentials): { url: string; state: string } {
+  if (!isUserConsentConfigured(credentials)) {
+    throw new Error("A client id, client secret and redirect URI (RuName) must be set to request user consent");
+  }
+  const state = crypto.randomBytes(16).toString("hex");
+  getUserTokenState(credentials).consentStates.add(state);
+  const query = new URLSearchParams({
+    client_id: credentials.clientId!,
+    redirect_uri: credentials.redirectUri!,
+    response_type: "code",
+    scope: getUserScopes().join(" "),
+    state,
+  });
+  return { url: `${OAUTH_AUTHORIZE_URL[USER_ENVIRONMENT]}?${query.toString()}`, state };
+}
+
+/**
+ * Exchange the authorization code for a user token and keep it for later calls with the same credentials.
+ * Accepts the bare code or the full url the consent page redirected to.
+ */
+export async function exchangeAuthorizationCode(codeOrRedirectUrl: string, credentials: EbayCredentials): Promise<StoredUserToken> {
+  if (!isUserConsentConfigured(credentials)) {
+    throw new Error("A client id, client secret and redirect URI (RuName) must be set to exchange an authorization code");
+  }
+  const { code, state } = parseAuthorizationCode(codeOrRedirectUrl);
+  if (state !== undefined) {
+    const consentStates = getUserTokenState(credentials).consentStates;
+    if (!consentStates.has(state)) {
+      throw new Error("The state in the redirect url does not match any consent url issued by this server");
+    }
+    consentStates.delete(state);
+  }
+  const scopes = getUserScopes();
+  const resp = await requestToken(credentials, {
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: credentials.redirectUri!,
+  });
+  if (!resp.refresh_token) {
+    throw new Error("eBay did not return a refresh token for the authorization code");
+  }
+  const token: StoredUserToken = {
+    refreshToken: resp.refresh_token,
+    refreshTokenExpiresAt: Date.now() + (resp.refresh_token_expires_in || DEFAULT_REFRESH_TOKEN_LIFETIME_SECONDS) * 1000,
+    scopes,
+    accessToken: resp.access_token,
+    accessTokenExpiresAt: Date.now() + resp.expires_in * 1000,
+  };
+  storeUserToken(token, credentials);
+  console.error("Stored eBay user token from authorization code");
+  return token;
+}
+
+/**
+ * Get the user token from memory or the token store, returns undefined if none or the refresh token expired
+ */
+export function getStoredUserToken(credentials: EbayCredentials): StoredUserToken | undefined {
+  const state = getUserTokenState(credentials);
+  if (!state.loaded && hasClientCredentials(credentials)) {
+    state.token = loadUserToken(getTokenStoreSecret(credentials));
+    state.loaded = true;
+  }
+  if (state.token && isExpiring(state.token.refreshTokenExpiresAt)) {
+    console.error("Stored eBay user refresh token has expired, a new consent is required");
+    state.token = undefined;
+  }
+  return state.token;
+}
+
+/**
+ * Get the user token state of the credentials' session, session tokens are never loaded from the token store
+ */
+function getUserTokenState(credentials: EbayCredentials): UserTokenState {
+  const context = credentials.sessionId || LOCAL_USER_CONTEXT;
+  let state = userTokenStates.get(context);
+  if (!state) {
+    state = { loaded: Boolean(credentials.sessionId), consentStates: new Set() };
+    userTokenStates.set(context, state);
+  }
+  return state;
+}
+
+/**
+ * Get a live user access token, refreshing it with the stored refresh token when needed
+ */
+async function getUserAccessToken(credentials: EbayCredentials, forceRefresh: boolean): Promise<string> {
+  const state = getUserTokenState(credentials);
+  const current = getStoredUserToken(credentials)!;
+  if (!forceRefresh && current.accessToken && current.accessTokenExpiresAt && !isExpiring(current.accessTokenExpiresAt)) {
+    return current.accessToken;
+  }
+  if (!state.pendingRefresh) {
+    state.pendingRefresh = refreshUserToken(current, credentials).finally(() => {
+      state.pendingRefresh = undefined;
+    });
+  }
+  const refreshed = await state.pendingRefresh;
+  return refreshed.accessToken!;
+}
+
+async function refreshUserToken(current: StoredUserToken, credentials: EbayCredentials): Promise<StoredUserToken> {
+  const resp = await requestToken(credentials, {
+    grant_type: "refresh_token",
+    refresh_token: current.refreshToken,
+    scope: current.scopes.join(" "),
+  });
+  const token: StoredUserToken = {
+    ...current,
+    accessToken: resp.access_token,
+    accessTokenExpiresAt: Date.now() + resp.expires_in * 1000,
+  };
+  storeUserToken(token, credentials);
+  console.error(`Refreshed eBay user token, expires in ${resp.expires_in}s`);
+  return token;
+}
+
+/**
+ * Mint an application token with the client credentials grant
+ */
+async function mintApplicationToken(credentials: EbayCredentials): Promise<CachedToken> {
+  const scopes = credentials.scopes || [DEFAULT_OAUTH_SCOPE];
+  const resp = await requestToken(credentials, { grant_type: "client_credentials", scope: scopes.join(" ") });
+  console.error(`Minted eBay application token, expires in ${resp.expires_in}s`);
+  return {
+    accessToken: resp.access_token,
+    expiresAt: Date.now() + resp.expires_in * 1000,
+  };
+}
+
+/**
+ * Call the identity token endpoint with the given grant, the call is recorded in the audit log
+ */
+async function requestToken(credentials: EbayCredentials, grant: Record<string, string>): Promise<TokenResponse> {
+  const basicAuth = Buffer.from(`${credentials.clientId}:${credentials.clientSecret}`).toString("base64");
+  const config: AxiosRequestConfig = {
+    url: OAUTH_TOKEN_URL[USER_ENVIRONMENT],
+    method: "post",
+    data: new URLSearchParams(grant).toString(),
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      "Authorization": `Basic ${basicAuth}`,
+    },
+  };
+  const startedAt = Date.now();
+  try {
+    const resp = await getHttpClient().post<TokenResponse>(config.url!, config.data, { headers: config.headers });
+    runWithinAuditContext({ kind: "token_request" }, () =>
+      recordAuditEntry(config, { startedAt, attempts: 1, sessionId: credentials.sessionId, response: resp }));
+    return resp.data;
+  } catch (error) {
+    runWithinAuditContext({ kind: "token_request" }, () =>
+      recordAuditEntry(config, { startedAt, attempts: 1, sessionId: credentials.sessionId, error }));
+    const reason = axios.isAxiosError(error) && error.response?.data
+      ? JSON.stringify(error.response.data)
+      : error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to get eBay token with ${grant.grant_type} grant: ${reason}`);
+  }
+}
+
+function parseAuthorizationCode(codeOrRedirectUrl: string): { code: string; state?: string } {
+  const value = codeOrRedirectUrl.trim();
+  if (!/^https?:\/\//.test(value)) {
+    return { code: value };
+  }
+  const query = new URL(value).searchParams;
+  const code = query.get("code");
+  if (!code) {
+    throw new Error("The redirect url does not contain an authorization code");
+  }
+  return { code, state: query.get("state") || undefined };
+}
+
+function storeUserToken(token: StoredUserToken, credentials: EbayCredentials): void {
+  const state = getUserTokenState(credentials);
+  state.token = token;
+  state.loaded = true;
+  if (!credentials.sessionId) {
+    saveUserToken(token, getTokenStoreSecret(credentials));
+  }
+}
+
+function readHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function normalizeCredentials(fields: Omit<EbayCredentials, "scopes"> & { scopes?: string }): EbayCredentials | undefined {
+  const credentials: EbayCredentials = {
+    clientToken: fields.clientToken || undefined,
+    clientId: fields.clientId || undefined,
+    clientSecret: fields.clientSecret || undefined,
+    scopes: parseScopes(fields.scopes),
+    redirectUri: fields.redirectUri || undefined,
+  };
+  return credentials.clientToken || hasClientCredentials(credentials) ? credentials : undefined;
+}
+
+function getUserScopes(): string[] {
+  return parseScopes(process.env.EBAY_USER_SCOPES) || [DEFAULT_OAUTH_SCOPE];
+}
+
+function getTokenStoreSecret(credentials: EbayCredentials): string {
+  return process.env.EBAY_TOKEN_STORE_KEY || credentials.clientSecret || "";
+}
+
+function isExpiring(expiresAt: number): boolean {
+  return expiresAt - TOKEN_REFRESH_MARGIN_MS <= Date.now();
+}
+
+/**
+ * Cache key of application tokens, includes a hash of the secret so a client that only knows another client's id
+ * never gets the token minted for it
+ */
+function buildTokenCacheKey(credentials: EbayCredentials): string {
+  const clientHash = crypto.createHash("sha256").update(`${credentials.clientId}:${credentials.clientSecret}`).digest("hex");
+  return `${clientHash}:${(credentials.scopes || [DEFAULT_OAUTH_SCOPE]).join(" ")}`;
+}
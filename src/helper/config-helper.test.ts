@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { applyConfig, getCliOption, loadConfigFile } from "./config-helper.js";
+
+describe("config file", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ebay-config-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("applies fields as environment defaults, set variables override them", () => {
+    const configPath = path.join(dir, "config.yaml");
+    fs.writeFileSync(configPath, [
+      "environment: sandbox",
+      "credentials:",
+      "  clientId: my-app",
+      "  clientSecret: { env: MY_SECRET }",
+      "methods:",
+      "  productionWriteAllowlist: [createOffer, POST /sell/inventory/v1/offer/*/publish]",
+      "retry:",
+      "  maxAttempts: 5",
+      "rateLimit:",
+      "  perSecond: { buy/browse: 2, default: 5 }",
+      "output:",
+      "  compactJson: true",
+    ].join("\n"));
+    const env: Record<string, string | undefined> = { MY_SECRET: "s3cret", EBAY_RETRY_MAX_ATTEMPTS: "2" };
+
+    applyConfig(loadConfigFile(configPath), env);
+
+    expect(env).toMatchObject({
+      EBAY_API_ENV: "sandbox",
+      EBAY_CLIENT_ID: "my-app",
+      EBAY_CLIENT_SECRET: "s3cret",
+      EBAY_PRODUCTION_WRITE_ALLOWLIST: "createOffer,POST /sell/inventory/v1/offer/*/publish",
+      EBAY_RETRY_MAX_ATTEMPTS: "2",
+      EBAY_RATE_LIMIT_PER_SECOND: "buy/browse=2,default=5",
+      EBAY_MCP_COMPACT_JSON: "true",
+    });
+    expect(() => applyConfig({ credentials: { clientToken: { env: "UNSET_TOKEN" } } }, {}))
+      .toThrow("Config field credentials.clientToken references environment variable UNSET_TOKEN, which is not set");
+  });
+
+  it("keeps proxy variables set in either case", () => {
+    const env: Record<string, string | undefined> = { https_proxy: "http://proxy.local:3128" };
+
+    applyConfig({ http: { proxy: "http://config-proxy:8080", noProxy: ["localhost"] } }, env);
+
+    expect(env).toEqual({ https_proxy: "http://proxy.local:3128", NO_PROXY: "localhost" });
+  });
+
+  it("reports every invalid field", () => {
+    const configPath = path.join(dir, "config.json");
+    fs.writeFileSync(configPath, JSON.stringify({ environment: "staging", retry: { maxAttempts: 0 }, unknown: true }));
+
+    expect(() => loadConfigFile(configPath)).toThrow(/environment: Invalid enum value[\s\S]*retry\.maxAttempts: Number must be greater than 0[\s\S]*Unrecognized key/);
+    expect(getCliOption("config", ["--transport", "http", "--config=/etc/ebay.yaml"])).toBe("/etc/ebay.yaml");
+  });
+});
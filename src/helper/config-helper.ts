@@ -0,0 +1,255 @@
+/**
+ * Config file helper functions. One YAML or JSON file (`--config` or EBAY_MCP_CONFIG) holds every setting,
+ * it is validated at startup and applied as defaults of the environment variables the server reads,
+ * so a variable that is set overrides the matching config field.
+ * Must not import the constants, they are evaluated from the environment after the config is applied.
+ */
+import * as fs from "fs";
+import * as yaml from "js-yaml";
+import { z } from "zod";
+
+// credentials are referenced rather than written into the file: an environment variable or a file holding the value
+const SECRET_REFERENCE_SCHEMA = z.union([
+  z.string(),
+  z.object({ env: z.string() }).strict(),
+  z.object({ file: z.string() }).strict(),
+]);
+const POSITIVE_INTEGER_SCHEMA = z.number().int().positive();
+const STRING_LIST_SCHEMA = z.array(z.string());
+// a limit for every API family, or limits by family, spec title or `default`
+const LIMITS_SCHEMA = z.union([z.number().positive(), z.record(z.string(), z.number().positive())]);
+
+/**
+ * Schema of the config file
+ */
+export const CONFIG_SCHEMA = z.object({
+  environment: z.enum(["sandbox", "production", "mock"]).optional(),
+  credentials: z.object({
+    clientToken: SECRET_REFERENCE_SCHEMA.optional(),
+    clientId: SECRET_REFERENCE_SCHEMA.optional(),
+    clientSecret: SECRET_REFERENCE_SCHEMA.optional(),
+    scopes: STRING_LIST_SCHEMA.optional(),
+    redirectUri: z.string().optional(),
+    userScopes: STRING_LIST_SCHEMA.optional(),
+    tokenStorePath: z.string().optional(),
+    tokenStoreKey: SECRET_REFERENCE_SCHEMA.optional(),
+  }).strict().optional(),
+  specs: z.object({
+    urlFile: z.string().optional(),
+    watch: z.boolean().optional(),
+    searchMode: z.enum(["local", "remote"]).optional(),
+    cacheTtlSeconds: POSITIVE_INTEGER_SCHEMA.optional(),
+    cacheMaxEntries: POSITIVE_INTEGER_SCHEMA.optional(),
+    cacheDir: z.string().optional(),
+  }).strict().optional(),
+  methods: z.object({
+    productionWriteAllowlist: STRING_LIST_SCHEMA.optional(),
+  }).strict().optional(),
+  transport: z.object({
+    type: z.enum(["stdio", "http"]).optional(),
+    host: z.string().optional(),
+    port: z.number().int().min(1).max(65535).optional(),
+    authToken: SECRET_REFERENCE_SCHEMA.optional(),
+    requireClientCredentials: z.boolean().optional(),
+  }).strict().optional(),
+  http: z.object({
+    connectTimeoutMs: POSITIVE_INTEGER_SCHEMA.optional(),
+    readTimeoutMs: POSITIVE_INTEGER_SCHEMA.optional(),
+    proxy: z.string().url().optional(),
+    noProxy: STRING_LIST_SCHEMA.optional(),
+    caBundle: z.string().optional(),
+    tlsRejectUnauthorized: z.boolean().optional(),
+  }).strict().optional(),
+  retry: z.object({
+    maxAttempts: POSITIVE_INTEGER_SCHEMA.optional(),
+    baseDelayMs: POSITIVE_INTEGER_SCHEMA.optional(),
+    maxDelayMs: POSITIVE_INTEGER_SCHEMA.optional(),
+    budgetMs: POSITIVE_INTEGER_SCHEMA.optional(),
+    nonIdempotent: z.boolean().optional(),
+  }).strict().optional(),
+  rateLimit: z.object({
+    perSecond: LIMITS_SCHEMA.optional(),
+    dailyBudget: LIMITS_SCHEMA.optional(),
+  }).strict().optional(),
+  output: z.object({
+    maxChars: POSITIVE_INTEGER_SCHEMA.optional(),
+    compactJson: z.boolean().optional(),
+    validateResponses: z.boolean().optional(),
+  }).strict().optional(),
+  locale: z.object({
+    marketplaceId: z.string().optional(),
+    acceptLanguage: z.string().optional(),
+    contentLanguage: z.string().optional(),
+    endUserContext: z.string().optional(),
+  }).strict().optional(),
+  audit: z.object({
+    path: z.string().optional(),
+    redactFields: STRING_LIST_SCHEMA.optional(),
+    maxBytes: POSITIVE_INTEGER_SCHEMA.optional(),
+    maxFiles: POSITIVE_INTEGER_SCHEMA.optional(),
+  }).strict().optional(),
+  mock: z.object({
+    errorRate: z.number().min(0).max(1).optional(),
+    errorStatuses: z.array(z.number().int().min(400).max(599)).optional(),
+    latencyMs: z.union([z.number().int().nonnegative(), z.string().regex(/^\d+-\d+$/)]).optional(),
+  }).strict().optional(),
+  fixtures: z.object({
+    mode: z.enum(["record", "replay"]).optional(),
+    dir: z.string().optional(),
+  }).strict().optional(),
+}).strict();
+
+/**
+ * Parsed config file
+ */
+export type ServerConfig = z.infer<typeof CONFIG_SCHEMA>;
+
+/**
+ * Environment variable of every config field, by field path
+ */
+const CONFIG_ENV_VARS: Record<string, string> = {
+  "environment": "EBAY_API_ENV",
+  "credentials.clientToken": "EBAY_CLIENT_TOKEN",
+  "credentials.clientId": "EBAY_CLIENT_ID",
+  "credentials.clientSecret": "EBAY_CLIENT_SECRET",
+  "credentials.scopes": "EBAY_CLIENT_SCOPES",
+  "credentials.redirectUri": "EBAY_REDIRECT_URI",
+  "credentials.userScopes": "EBAY_USER_SCOPES",
+  "credentials.tokenStorePath": "EBAY_TOKEN_STORE_PATH",
+  "credentials.tokenStoreKey": "EBAY_TOKEN_STORE_KEY",
+  "specs.urlFile": "EBAY_API_DOC_URL_FILE",
+  "specs.watch": "EBAY_API_DOC_WATCH",
+  "specs.searchMode": "EBAY_API_SEARCH_MODE",
+  "specs.cacheTtlSeconds": "EBAY_SPEC_CACHE_TTL_SECONDS",
+  "specs.cacheMaxEntries": "EBAY_SPEC_CACHE_MAX_ENTRIES",
+  "specs.cacheDir": "EBAY_SPEC_CACHE_DIR",
+  "methods.productionWriteAllowlist": "EBAY_PRODUCTION_WRITE_ALLOWLIST",
+  "transport.type": "EBAY_MCP_TRANSPORT",
+  "transport.host": "EBAY_MCP_HTTP_HOST",
+  "transport.port": "EBAY_MCP_HTTP_PORT",
+  "transport.authToken": "EBAY_MCP_HTTP_AUTH_TOKEN",
+  "transport.requireClientCredentials": "EBAY_MCP_REQUIRE_CLIENT_CREDENTIALS",
+  "http.connectTimeoutMs": "EBAY_HTTP_CONNECT_TIMEOUT_MS",
+  "http.readTimeoutMs": "EBAY_HTTP_READ_TIMEOUT_MS",
+  "http.proxy": "HTTPS_PROXY",
+  "http.noProxy": "NO_PROXY",
+  "http.caBundle": "EBAY_CA_BUNDLE",
+  "http.tlsRejectUnauthorized": "EBAY_TLS_REJECT_UNAUTHORIZED",
+  "retry.maxAttempts": "EBAY_RETRY_MAX_ATTEMPTS",
+  "retry.baseDelayMs": "EBAY_RETRY_BASE_DELAY_MS",
+  "retry.maxDelayMs": "EBAY_RETRY_MAX_DELAY_MS",
+  "retry.budgetMs": "EBAY_RETRY_BUDGET_MS",
+  "retry.nonIdempotent": "EBAY_RETRY_NON_IDEMPOTENT",
+  "rateLimit.perSecond": "EBAY_RATE_LIMIT_PER_SECOND",
+  "rateLimit.dailyBudget": "EBAY_DAILY_CALL_BUDGET",
+  "output.maxChars": "EBAY_MCP_MAX_OUTPUT_CHARS",
+  "output.compactJson": "EBAY_MCP_COMPACT_JSON",
+  "output.validateResponses": "EBAY_VALIDATE_RESPONSES",
+  "locale.marketplaceId": "EBAY_MARKETPLACE_ID",
+  "locale.acceptLanguage": "EBAY_ACCEPT_LANGUAGE",
+  "locale.contentLanguage": "EBAY_CONTENT_LANGUAGE",
+  "locale.endUserContext": "EBAY_END_USER_CONTEXT",
+  "audit.path": "EBAY_AUDIT_LOG_PATH",
+  "audit.redactFields": "EBAY_AUDIT_REDACT_FIELDS",
+  "audit.maxBytes": "EBAY_AUDIT_LOG_MAX_BYTES",
+  "audit.maxFiles": "EBAY_AUDIT_LOG_MAX_FILES",
+  "mock.errorRate": "EBAY_MOCK_ERROR_RATE",
+  "mock.errorStatuses": "EBAY_MOCK_ERROR_STATUSES",
+  "mock.latencyMs": "EBAY_MOCK_LATENCY_MS",
+  "fixtures.mode": "EBAY_FIXTURE_MODE",
+  "fixtures.dir": "EBAY_FIXTURE_DIR",
+};
+
+/**
+ * Other names of environment variables, a config field is not applied when any of them is set
+ */
+const ENV_VAR_ALIASES: Record<string, string[]> = {
+  HTTPS_PROXY: ["https_proxy"],
+  NO_PROXY: ["no_proxy"],
+};
+
+/**
+ * Read a command line option given as `--name value` or `--name=value`
+ */
+export function getCliOption(name: string, args: string[] = process.argv.slice(2)): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`--${name}=`)) {
+      return args[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read and validate the config file, errors name the file and every invalid field
+ */
+export function loadConfigFile(configPath: string): ServerConfig {
+  let raw: unknown;
+  try {
+    raw = yaml.load(fs.readFileSync(configPath, "utf-8"));
+  } catch (error) {
+    throw new Error(`Cannot read config file ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const result = CONFIG_SCHEMA.safeParse(raw ?? {});
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `- ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new Error(`Invalid config file ${configPath}:\n${issues.join("\n")}`);
+  }
+  return result.data;
+}
+
+/**
+ * Set the environment variables of the config's fields, variables that are already set are kept
+ * (proxy variables in either case, the http client honours both)
+ */
+export function applyConfig(config: ServerConfig, env: Record<string, string | undefined>): void {
+  for (const [fieldPath, envVarName] of Object.entries(CONFIG_ENV_VARS)) {
+    const value = fieldPath.split(".").reduce<unknown>((current, key) =>
+      current && typeof current === "object" ? (current as Record<string, unknown>)[key] : undefined, config);
+    const isSet = [envVarName, ...(ENV_VAR_ALIASES[envVarName] || [])].some(name => env[name] !== undefined);
+    if (value === undefined || isSet) {
+      continue;
+    }
+    env[envVarName] = toEnvValue(fieldPath, value, env);
+  }
+}
+
+/**
+ * Load the config file given with `--config` or EBAY_MCP_CONFIG and apply it to the environment, if there is one
+ */
+export function applyConfigFile(args: string[], env: Record<string, string | undefined>): void {
+  const configPath = getCliOption("config", args) || env.EBAY_MCP_CONFIG;
+  if (!configPath) {
+    return;
+  }
+  applyConfig(loadConfigFile(configPath), env);
+  console.error(`Loaded config file ${configPath}`);
+}
+
+function toEnvValue(fieldPath: string, value: unknown, env: Record<string, string | undefined>): string {
+  if (Array.isArray(value)) {
+    return value.join(",");
+  }
+  if (value && typeof value === "object") {
+    if ("env" in value) {
+      const referenced = env[String(value.env)];
+      if (referenced === undefined) {
+        throw new Error(`Config field ${fieldPath} references environment variable ${String(value.env)}, which is not set`);
+      }
+      return referenced;
+    }
+    if ("file" in value) {
+      try {
+        return fs.readFileSync(String(value.file), "utf-8").trim();
+      } catch (error) {
+        throw new Error(`Config field ${fieldPath} references file ${String(value.file)}, which cannot be read: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    // limits by API family
+    return Object.entries(value).map(([key, limit]) => `${key}=${String(limit)}`).join(",");
+  }
+  return String(value);
+}
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import axios, { type AxiosAdapter } from "axios";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createFixtureAdapter } from "./fixture-adapter.js";
+
+describe("fixture adapter", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ebay-fixtures-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("replays recorded calls by method, path, query and body", async () => {
+    const live = vi.fn<AxiosAdapter>(async config => ({
+      data: JSON.stringify({ itemId: "1" }), status: 200, statusText: "OK", headers: { "content-type": "application/json" }, config,
+    }));
+    const recorder = axios.create({ adapter: createFixtureAdapter("record", dir, live) });
+    await recorder.get("https://api.ebay.com/buy/browse/v1/item_summary/search", { params: { q: "phone", limit: 2 } });
+    expect(fs.readdirSync(dir)).toHaveLength(1);
+
+    const replayer = axios.create({ adapter: createFixtureAdapter("replay", dir, live) });
+    const replayed = await replayer.get("https://api.sandbox.ebay.com/buy/browse/v1/item_summary/search?limit=2", { params: { q: "phone" } });
+    expect(replayed.data).toEqual({ itemId: "1" });
+    expect(live).toHaveBeenCalledTimes(1);
+
+    await expect(replayer.get("https://api.ebay.com/buy/browse/v1/item_summary/search", { params: { q: "case" } }))
+      .rejects.toThrow("No recorded fixture for GET /buy/browse/v1/item_summary/search?q=case");
+  });
+
+  it("replays recorded error statuses and never records token requests", async () => {
+    const live = vi.fn<AxiosAdapter>(async config => {
+      if (config.url?.endsWith("/identity/v1/oauth2/token")) {
+        return { data: "{\"access_token\":\"secret\"}", status: 200, statusText: "OK", headers: {}, config };
+      }
+      throw new axios.AxiosError("Request failed with status code 404", "ERR_BAD_REQUEST", config, {},
+        { data: "{\"errors\":[]}", status: 404, statusText: "Not Found", headers: {}, config });
+    });
+    const recorder = axios.create({ adapter: createFixtureAdapter("record", dir, live) });
+    await recorder.post("https://api.ebay.com/identity/v1/oauth2/token", "grant_type=client_credentials");
+    await expect(recorder.post("https://api.ebay.com/sell/inventory/v1/offer", { sku: "a" })).rejects.toThrow("404");
+    expect(fs.readdirSync(dir)).toHaveLength(1);
+
+    const replayer = axios.create({ adapter: createFixtureAdapter("replay", dir, live) });
+    await expect(replayer.post("https://api.ebay.com/sell/inventory/v1/offer", { sku: "a" }))
+      .rejects.toMatchObject({ response: { status: 404, data: { errors: [] } } });
+    const token = await replayer.post("https://api.ebay.com/identity/v1/oauth2/token", "grant_type=client_credentials");
+    expect(token.data.access_token).toBe("replayed-access-token");
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Record and replay of eBay calls for offline development and tests. In record mode every request sent through
+ * the shared HTTP client is saved with its response to the fixture directory, in replay mode responses are served
+ * from the fixtures by method, path, query and body, and a request without a fixture fails.
+ * OAuth token requests are never recorded, in replay mode they get a placeholder token.
+ */
+import { AxiosError, AxiosHeaders, type AxiosAdapter, type AxiosResponse, type InternalAxiosRequestConfig } from "axios";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+const OAUTH_TOKEN_PATH = "/identity/v1/oauth2/token";
+/**
+ * Token response served instead of calling the OAuth endpoint when eBay is not called
+ */
+export const PLACEHOLDER_TOKEN_RESPONSE = {
+  access_token: "replayed-access-token",
+  expires_in: 7200,
+  refresh_token: "replayed-refresh-token",
+  refresh_token_expires_in: 47304000,
+  token_type: "User Access Token",
+};
+
+/**
+ * Record or replay mode, from EBAY_FIXTURE_MODE
+ */
+export type FixtureMode = "record" | "replay";
+
+/**
+ * Request attributes a fixture is matched by
+ */
+export interface FixtureRequest {
+  method: string;
+  path: string;
+  query: string;
+  body?: unknown;
+}
+
+/**
+ * Recorded request and response, saved as one JSON file
+ */
+interface Fixture {
+  request: FixtureRequest;
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    // JSON bodies are kept parsed so fixtures can be read and edited
+    json?: unknown;
+    text?: string;
+  };
+}
+
+/**
+ * Read the fixture mode from environment variables, undefined when calls go to eBay as usual
+ */
+export function getFixtureMode(): FixtureMode | undefined {
+  const mode = process.env.EBAY_FIXTURE_MODE;
+  if (!mode) {
+    return undefined;
+  }
+  if (mode !== "record" && mode !== "replay") {
+    throw new Error(`Invalid EBAY_FIXTURE_MODE ${mode}, expected "record" or "replay"`);
+  }
+  return mode;
+}
+
+/**
+ * Directory fixtures are read from and written to, EBAY_FIXTURE_DIR or ./fixtures
+ */
+export function getFixtureDir(): string {
+  return path.resolve(process.env.EBAY_FIXTURE_DIR || "fixtures");
+}
+
+/**
+ * Create the adapter recording the calls of the live adapter, or replaying them from the fixture directory
+ */
+export function createFixtureAdapter(mode: FixtureMode, fixtureDir: string, liveAdapter: AxiosAdapter): AxiosAdapter {
+  return async (config) => {
+    const request = describeRequest(config);
+    const isTokenRequest = request.path.endsWith(OAUTH_TOKEN_PATH);
+    if (mode === "replay") {
+      if (isTokenRequest) {
+        return settle(config, { status: 200, statusText: "OK", headers: {}, json: PLACEHOLDER_TOKEN_RESPONSE });
+      }
+      const fixturePath = path.join(fixtureDir, buildFixtureFileName(request));
+      if (!fs.existsSync(fixturePath)) {
+        throw new Error(`No recorded fixture for ${request.method} ${request.path}${request.query ? `?${request.query}` : ""}`
+          + ` (expected ${fixturePath}), record it with EBAY_FIXTURE_MODE=record`);
+      }
+      const fixture = JSON.parse(fs.readFileSync(fixturePath, "utf-8")) as Fixture;
+      return settle(config, fixture.response);
+    }
+
+    let response: AxiosResponse;
+    try {
+      response = await liveAdapter(config);
+    } catch (error) {
+      // error statuses are recorded too, network failures are not
+      if (!isTokenRequest && error instanceof AxiosError && error.response) {
+        saveFixture(fixtureDir, request, error.response);
+      }
+      throw error;
+    }
+    if (!isTokenRequest) {
+      saveFixture(fixtureDir, request, response);
+    }
+    return response;
+  };
+}
+
+/**
+ * Describe the request by what fixtures are matched on: method, path, sorted query and (normalized JSON) body
+ */
+export function describeRequest(config: InternalAxiosRequestConfig): FixtureRequest {
+  const url = new URL(buildUri(config));
+  const query = [...url.searchParams.entries()]
+    .sort(([a, aValue], [b, bValue]) => a.localeCompare(b) || aValue.localeCompare(bValue))
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join("&");
+  const request: FixtureRequest = { method: (config.method || "get").toUpperCase(), path: url.pathname, query };
+  const body = parseBody(config.data);
+  if (body !== undefined) {
+    request.body = body;
+  }
+  return request;
+}
+
+/**
+ * File name of the request's fixture: readable method and path, and a hash of everything matched on
+ */
+export function buildFixtureFileName(request: FixtureRequest): string {
+  const hash = crypto.createHash("sha256").update(stableStringify(request)).digest("hex").slice(0, 16);
+  const readable = `${request.method}${request.path}`.replace(/[^a-zA-Z0-9]+/g, "_").slice(0, 100);
+  return `${readable}_${hash}.json`;
+}
+
+function buildUri(config: InternalAxiosRequestConfig): string {
+  const url = new URL(config.url || "", config.baseURL);
+  for (const [key, value] of Object.entries((config.params || {}) as Record<string, unknown>)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    for (const item of Array.isArray(value) ? value : [value]) {
+      url.searchParams.append(key, String(item));
+    }
+  }
+  return url.toString();
+}
+
+function saveFixture(fixtureDir: string, request: FixtureRequest, response: AxiosResponse): void {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(response.headers || {})) {
+    if (name.toLowerCase() !== "set-cookie" && value !== undefined && value !== null) {
+      headers[name] = String(value);
+    }
+  }
+  const text = typeof response.data === "string" ? response.data : JSON.stringify(response.data);
+  const json = parseBody(text);
+  const fixture: Fixture = {
+    request,
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      ...(json !== undefined && typeof json !== "string" ? { json } : { text }),
+    },
+  };
+  fs.mkdirSync(fixtureDir, { recursive: true });
+  fs.writeFileSync(path.join(fixtureDir, buildFixtureFileName(request)), JSON.stringify(fixture, null, 2), "utf-8");
+}
+
+function settle(config: InternalAxiosRequestConfig, recorded: Fixture["response"]): AxiosResponse {
+  return settleResponse({
+    // the raw body, axios parses it like a live response
+    data: recorded.json !== undefined ? JSON.stringify(recorded.json) : recorded.text ?? "",
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: new AxiosHeaders(recorded.headers),
+    config,
+    request: {},
+  });
+}
+
+/**
+ * Resolve or reject a response not received from eBay like the live adapter does, by the config's validateStatus
+ */
+export function settleResponse(response: AxiosResponse): AxiosResponse {
+  const config = response.config;
+  if (!config.validateStatus || config.validateStatus(response.status)) {
+    return response;
+  }
+  throw new AxiosError(
+    `Request failed with status code ${response.status}`,
+    response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    response.request,
+    response,
+  );
+}
+
+function parseBody(data: unknown): unknown {
+  if (data === undefined || data === null || data === "") {
+    return undefined;
+  }
+  if (typeof data !== "string") {
+    return data;
+  }
+  try {
+    return JSON.parse(data);
+  } catch (_error) {
+    return data;
+  }
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { shouldBypassProxy } from "./http-client.js";
+
+describe("shouldBypassProxy", () => {
+  it("matches hosts and domain suffixes from NO_PROXY", () => {
+    expect(shouldBypassProxy("api.ebay.com", ".ebay.com, localhost")).toBe(true);
+    expect(shouldBypassProxy("api.ebay.com", "ebay.com")).toBe(true);
+    expect(shouldBypassProxy("localhost", "localhost:8080")).toBe(true);
+    expect(shouldBypassProxy("api.ebay.com", "*")).toBe(true);
+    expect(shouldBypassProxy("notebay.com", "ebay.com")).toBe(false);
+    expect(shouldBypassProxy("api.ebay.com", undefined)).toBe(false);
+  });
+});
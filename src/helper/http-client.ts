@@ -0,0 +1,184 @@
+/**
+ * Shared HTTP client used for every call to eBay: certificates are verified (with an optional extra CA bundle),
+ * connections are kept alive and pooled, HTTPS_PROXY/NO_PROXY are honored by tunneling through the proxy,
+ * and connect and read timeouts are applied. Calls can be recorded to or replayed from fixtures instead,
+ * and in the mock environment they are answered from the loaded specs.
+ */
+import axios, { type AxiosInstance } from "axios";
+import * as fs from "fs";
+import http from "http";
+import https from "https";
+import type { Duplex } from "stream";
+import * as tls from "tls";
+import { ApiEnvironment, DEFAULT_HTTP_CONNECT_TIMEOUT_MS, DEFAULT_HTTP_READ_TIMEOUT_MS, USER_ENVIRONMENT } from "../constant/constants.js";
+import { createFixtureAdapter, getFixtureDir, getFixtureMode } from "./fixture-adapter.js";
+import { createMockAdapter } from "./mock-backend.js";
+
+type ConnectCallback = (err: Error | null, stream: Duplex) => void;
+
+let httpClient: AxiosInstance | undefined;
+
+/**
+ * Get the shared HTTP client, created on first use from environment variables
+ */
+export function getHttpClient(): AxiosInstance {
+  if (!httpClient) {
+    httpClient = createHttpClient();
+  }
+  return httpClient;
+}
+
+/**
+ * Close the pooled connections and drop the shared client, the next call creates a new one from the current settings
+ */
+export function resetHttpClient(): void {
+  const agent = httpClient?.defaults.httpsAgent as https.Agent | undefined;
+  agent?.destroy();
+  httpClient = undefined;
+}
+
+/**
+ * Whether NO_PROXY exempts the host: "*", exact hosts, and domain suffixes like ".ebay.com" or "ebay.com"
+ */
+export function shouldBypassProxy(host: string, noProxy: string | undefined): boolean {
+  const hostname = host.toLowerCase();
+  return (noProxy || "").split(/[\s,]+/).filter(entry => entry.length > 0).some(entry => {
+    const pattern = entry.toLowerCase().replace(/:\d+$/, "");
+    if (pattern === "*") {
+      return true;
+    }
+    const domain = pattern.replace(/^\*?\./, "");
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  });
+}
+
+function createHttpClient(): AxiosInstance {
+  const rejectUnauthorized = process.env.EBAY_TLS_REJECT_UNAUTHORIZED !== "false";
+  if (!rejectUnauthorized) {
+    console.error("EBAY_TLS_REJECT_UNAUTHORIZED is false, TLS certificates of eBay endpoints are not verified");
+  }
+  const tlsOptions: tls.ConnectionOptions = { rejectUnauthorized, ca: readCaBundle() };
+  const connectTimeoutMs = readTimeout(process.env.EBAY_HTTP_CONNECT_TIMEOUT_MS, DEFAULT_HTTP_CONNECT_TIMEOUT_MS);
+  const proxyUrl = process.env.HTTPS_PROXY || process.env.https_proxy;
+  const noProxy = process.env.NO_PROXY || process.env.no_proxy;
+
+  const httpsAgent = new https.Agent({ keepAlive: true, maxSockets: 50, ...tlsOptions });
+  const connectDirectly = httpsAgent.createConnection.bind(httpsAgent);
+  httpsAgent.createConnection = (options, callback?: ConnectCallback) => {
+    const host = options.host || options.hostname || "";
+    if (proxyUrl && !shouldBypassProxy(host, noProxy)) {
+      connectThroughProxy(new URL(proxyUrl), host, Number(options.port) || 443, tlsOptions, connectTimeoutMs, callback!);
+      return undefined;
+    }
+    const socket = connectDirectly(options, callback);
+    if (socket) {
+      applyConnectTimeout(socket, connectTimeoutMs, host);
+    }
+    return socket;
+  };
+
+  const client = axios.create({
+    httpsAgent,
+    httpAgent: new http.Agent({ keepAlive: true, maxSockets: 50 }),
+    timeout: readTimeout(process.env.EBAY_HTTP_READ_TIMEOUT_MS, DEFAULT_HTTP_READ_TIMEOUT_MS),
+    // proxying is handled by the agent, axios would send https requests to the proxy unencrypted
+    proxy: false,
+  });
+  // the mock environment answers from the loaded specs, and can be recorded like eBay itself
+  const liveAdapter = USER_ENVIRONMENT === ApiEnvironment.MOCK ? createMockAdapter() : axios.getAdapter(axios.defaults.adapter);
+  const fixtureMode = getFixtureMode();
+  if (fixtureMode) {
+    const fixtureDir = getFixtureDir();
+    console.error(`EBAY_FIXTURE_MODE is ${fixtureMode}, eBay calls are ${fixtureMode === "record" ? "recorded to" : "replayed from"} ${fixtureDir}`);
+    client.defaults.adapter = createFixtureAdapter(fixtureMode, fixtureDir, liveAdapter);
+  } else if (USER_ENVIRONMENT === ApiEnvironment.MOCK) {
+    client.defaults.adapter = liveAdapter;
+  }
+  return client;
+}
+
+/**
+ * Open a CONNECT tunnel through the proxy and start TLS with the target inside it
+ */
+function connectThroughProxy(
+  proxy: URL,
+  host: string,
+  port: number,
+  tlsOptions: tls.ConnectionOptions,
+  connectTimeoutMs: number,
+  callback: ConnectCallback,
+): void {
+  const headers: Record<string, string> = { Host: `${host}:${port}` };
+  if (proxy.username) {
+    const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+    headers["Proxy-Authorization"] = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+  const request = (proxy.protocol === "https:" ? https : http).request({
+    host: proxy.hostname,
+    port: Number(proxy.port) || (proxy.protocol === "https:" ? 443 : 80),
+    method: "CONNECT",
+    path: `${host}:${port}`,
+    headers,
+    timeout: connectTimeoutMs,
+  });
+  let done = false;
+  const fail = (error: Error) => {
+    if (!done) {
+      done = true;
+      callback(error, undefined as unknown as Duplex);
+    }
+  };
+  request.once("connect", (res, socket) => {
+    if (res.statusCode !== 200) {
+      socket.destroy();
+      fail(new Error(`Proxy ${proxy.host} refused the tunnel to ${host}:${port} with status ${res.statusCode}`));
+      return;
+    }
+    const tlsSocket = tls.connect({ ...tlsOptions, socket, servername: host });
+    applyConnectTimeout(tlsSocket, connectTimeoutMs, host);
+    tlsSocket.once("secureConnect", () => {
+      done = true;
+      callback(null, tlsSocket);
+    });
+    tlsSocket.once("error", fail);
+  });
+  request.once("timeout", () => request.destroy(createTimeoutError(connectTimeoutMs, proxy.host)));
+  request.once("error", fail);
+  request.end();
+}
+
+/**
+ * Destroy the socket when the connection isn't established in time, with ETIMEDOUT so the call is retried
+ */
+function applyConnectTimeout(socket: Duplex, connectTimeoutMs: number, host: string): void {
+  const timer = setTimeout(() => socket.destroy(createTimeoutError(connectTimeoutMs, host)), connectTimeoutMs);
+  const clear = () => clearTimeout(timer);
+  socket.once("secureConnect", clear);
+  socket.once("connect", () => {
+    // TLS sockets are only usable after the handshake
+    if (!(socket instanceof tls.TLSSocket)) {
+      clear();
+    }
+  });
+  socket.once("close", clear);
+}
+
+function createTimeoutError(connectTimeoutMs: number, host: string): Error {
+  return Object.assign(new Error(`Connecting to ${host} timed out after ${connectTimeoutMs}ms`), { code: "ETIMEDOUT" });
+}
+
+/**
+ * Trusted certificates: Node's bundled roots plus the PEM bundle at EBAY_CA_BUNDLE, e.g. a corporate proxy's CA
+ */
+function readCaBundle(): string[] | undefined {
+  const bundlePath = process.env.EBAY_CA_BUNDLE;
+  if (!bundlePath) {
+    return undefined;
+  }
+  return [...tls.rootCertificates, fs.readFileSync(bundlePath, "utf-8")];
+}
+
+function readTimeout(value: string | undefined, defaultValue: number): number {
+  const timeout = Number(value);
+  return Number.isInteger(timeout) && timeout > 0 ? timeout : defaultValue;
+}
@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { type OpenAPIV3 } from "openapi-types";
+import { fillLocaleHeaders } from "./http-helper.js";
+
+const search: OpenAPIV3.OperationObject = {
+  operationId: "search",
+  parameters: [
+    { name: "X-EBAY-C-MARKETPLACE-ID", in: "header", schema: { type: "string" } },
+    { name: "Accept-Language", in: "header", schema: { type: "string" } },
+  ],
+  responses: {},
+};
+
+describe("fillLocaleHeaders", () => {
+  afterEach(() => {
+    delete process.env.EBAY_MARKETPLACE_ID;
+    delete process.env.EBAY_ACCEPT_LANGUAGE;
+    delete process.env.EBAY_CONTENT_LANGUAGE;
+  });
+
+  it("adds defaults for declared headers the call did not set", () => {
+    process.env.EBAY_MARKETPLACE_ID = "EBAY_DE";
+    process.env.EBAY_ACCEPT_LANGUAGE = "de-DE";
+    process.env.EBAY_CONTENT_LANGUAGE = "de-DE";
+    const headers: Record<string, string> = { "accept-language": "en-GB" };
+
+    fillLocaleHeaders(headers, search);
+
+    expect(headers).toEqual({ "X-EBAY-C-MARKETPLACE-ID": "EBAY_DE", "accept-language": "en-GB" });
+  });
+});
@@ -1,12 +1,14 @@
 /**
  * Helper functions for HTTP requests
  */
-import axios from "axios";
+import axios, { type AxiosRequestConfig, type AxiosResponse } from "axios";
 import { type OpenAPIV3 } from "openapi-types";
-import https from "https";
-import { ApiEnvironment, DOMAIN_NAME, USER_ENVIRONMENT } from "../constant/constants.js";
-const USER_TOKEN = process.env.EBAY_CLIENT_TOKEN || "";
+import { ApiEnvironment, DOMAIN_NAME, LOCALE_HEADER_DEFAULTS, USER_ENVIRONMENT } from "../constant/constants.js";
+import { getAccessToken, hasClientCredentials, refreshAccessToken, type EbayCredentials } from "./auth-helper.js";
+import { getHttpClient } from "./http-client.js";
 const SCHEMA_REQUEST_BODY = "requestBody";
+// sent in place of the access token by requests that are only previewed, so no token is minted for them
+const PLACEHOLDER_AUTHORIZATION = "Bearer <access token>";
 
 
 /**
@@ -24,9 +26,19 @@ export function formatAxiosError(error: unknown): string {
 
 /**
  * needSetHostByEnv indicates whether to set the Host header based on the environment : If false, it uses the default production domain
- * Build headers from input headers and fill with default headers
+ * Build headers from input headers and fill with default headers, authorized with the given credentials.
+ * Marketplace and locale defaults are added for the headers the operation declares.
+ * Without authorize (dry runs) a placeholder replaces the access token, so no token is requested.
+ * The security requirements (the operation's own by default) pick between the user and the application token.
  */
-export function buildHeadersFromInput(inputHeaders: Record<string, string[]> | undefined, needSetHostByEnv : boolean): Record<string, string> {
+export async function buildHeadersFromInput(
+  inputHeaders: Record<string, string[]> | undefined,
+  needSetHostByEnv : boolean,
+  credentials: EbayCredentials,
+  operation?: OpenAPIV3.OperationObject,
+  authorize = true,
+  security = operation?.security,
+): Promise<Record<string, string>> {
   const headers: Record<string, string> = {};
   if (inputHeaders) {
     for (const [key, value] of Object.entries(inputHeaders)) {
@@ -34,15 +46,68 @@ export function buildHeadersFromInput(inputHeaders: Record<string, string[]> | u
     }
   }
   // Add default headers
-  fillDefaultHeaderInfo(headers, needSetHostByEnv);
+  await fillDefaultHeaderInfo(headers, needSetHostByEnv, credentials, operation, authorize, security);
   return headers;
 }
 
-export function fillDefaultHeaderInfo(headers: Record<string, string>, needSetHostByEnv : boolean): void {
+export async function fillDefaultHeaderInfo(
+  headers: Record<string, string>,
+  needSetHostByEnv : boolean,
+  credentials: EbayCredentials,
+  operation?: OpenAPIV3.OperationObject,
+  authorize = true,
+  security = operation?.security,
+): Promise<void> {
   headers["Host"] = needSetHostByEnv ? DOMAIN_NAME[USER_ENVIRONMENT] : DOMAIN_NAME[ApiEnvironment.PRODUCTION] ;
   headers["User-Agent"] = "EBAY-API-MCP-Tool/1.0";
-  headers["Authorization"] = `Bearer ${USER_TOKEN}`;
+  headers["Authorization"] = authorize ? `Bearer ${await getAccessToken(credentials, false, security)}` : PLACEHOLDER_AUTHORIZATION;
   headers["Content-Type"] = headers["Content-Type"] || "application/json";
+  if (operation) {
+    fillLocaleHeaders(headers, operation);
+  }
+}
+
+/**
+ * Add the configured marketplace and locale defaults for the headers the operation declares,
+ * headers given with the call take precedence
+ */
+export function fillLocaleHeaders(headers: Record<string, string>, operation: OpenAPIV3.OperationObject): void {
+  const declaredHeaders = (operation.parameters || [])
+    .filter((param): param is OpenAPIV3.ParameterObject => !("$ref" in param) && param.in === "header")
+    .map(param => param.name);
+  const givenHeaders = Object.keys(headers).map(name => name.toLowerCase());
+  for (const declaredName of declaredHeaders) {
+    const defaultValue = getLocaleHeaderDefault(declaredName);
+    if (defaultValue && !givenHeaders.includes(declaredName.toLowerCase())) {
+      headers[declaredName] = defaultValue;
+    }
+  }
+}
+
+/**
+ * Configured default of a marketplace or locale header (case-insensitive name), undefined if the header has none
+ */
+export function getLocaleHeaderDefault(headerName: string): string | undefined {
+  const envVarName = Object.entries(LOCALE_HEADER_DEFAULTS)
+    .find(([name]) => name.toLowerCase() === headerName.toLowerCase())?.[1];
+  return envVarName ? process.env[envVarName] || undefined : undefined;
+}
+
+/**
+ * Send request, when eBay rejects a minted token with 401, mint a new one and retry once
+ */
+export async function requestWithTokenRefresh<T = unknown>(config: AxiosRequestConfig, credentials: EbayCredentials): Promise<AxiosResponse<T>> {
+  try {
+    return await getHttpClient().request<T>(config);
+  } catch (error) {
+    if (!axios.isAxiosError(error) || error.response?.status !== 401 || !hasClientCredentials(credentials)) {
+      throw error;
+    }
+    console.error("eBay API returned 401, refreshing access token and retrying");
+    const rejectedToken = (config.headers as Record<string, string> | undefined)?.["Authorization"]?.replace(/^Bearer /, "");
+    const headers = { ...(config.headers as Record<string, string>), Authorization: `Bearer ${await refreshAccessToken(credentials, rejectedToken)}` };
+    return getHttpClient().request<T>({ ...config, headers });
+  }
 }
 
 /**
@@ -114,21 +179,34 @@ export function resolvePath(pathPattern: string, pathVariables?: Record<string,
 }
 
 /**
- * Prepare request data
+ * Prepare request data, splitting tool input into path, query, header and body values.
+ * Input keys that are not parameters of the operation are reported in unknownKeys.
+ * Without authorize (dry runs) the headers hold a placeholder instead of the access token.
+ * The security requirements (the operation's own by default) pick between the user and the application token.
  */
-export function prepareRequestData(
+export async function prepareRequestData(
   input: Record<string, unknown>,
   operation: OpenAPIV3.OperationObject,
   path: string,
-): { resolvedPath: string; headers: Record<string, string>; params: Record<string, unknown>; data: unknown; } {
+  credentials: EbayCredentials,
+  authorize = true,
+  security = operation.security,
+): Promise<{
+  resolvedPath: string;
+  headers: Record<string, string>;
+  params: Record<string, unknown>;
+  data: unknown;
+  pathParams: Record<string, string>;
+  unknownKeys: string[];
+}> {
   let resolvedPath = path;
   const headers: Record<string, string> = {};
   const params: Record<string, unknown> = {};
   let data: unknown = undefined;
   const pathParams: Record<string, string> = {};
+  const unknownKeys: string[] = [];
 
-  let prop = input.properties as Record<string, unknown> || {};
-  Object.entries(prop).forEach(([key, value]) => {
+  Object.entries(input).forEach(([key, value]) => {
     if (key === SCHEMA_REQUEST_BODY) {
       data = value;
     } else {
@@ -142,12 +220,14 @@ export function prepareRequestData(
         } else if (paramDef.in === "path") {
           pathParams[key] = String(value);
         }
+      } else {
+        unknownKeys.push(key);
       }
     }
   });
-  fillDefaultHeaderInfo(headers, false);
+  await fillDefaultHeaderInfo(headers, false, credentials, operation, authorize, security);
   if (Object.keys(pathParams).length > 0) {
     resolvedPath = resolvePath(resolvedPath, pathParams);
   }
-  return { resolvedPath, headers, params, data };
+  return { resolvedPath, headers, params, data, pathParams, unknownKeys };
 }
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it } from "vitest";
+import axios from "axios";
+import { type OpenAPIV3 } from "openapi-types";
+import { createMockAdapter, generateExample } from "./mock-backend.js";
+import { registerSpec } from "./spec-registry.js";
+
+const itemSchema: OpenAPIV3.SchemaObject = {
+  type: "object",
+  properties: {
+    itemId: { type: "string" },
+    price: { type: "object", properties: { value: { type: "number", minimum: 1 }, currency: { type: "string", enum: ["USD", "EUR"] } } },
+    categories: { type: "array", items: { type: "string", format: "date" } },
+  },
+};
+
+registerSpec({
+  openapi: "3.0.0",
+  info: { title: "Mock Browse API", version: "1" },
+  servers: [{ url: "https://api.ebay.com/buy/browse/v1" }],
+  paths: {
+    "/item/{item_id}": {
+      get: {
+        operationId: "getItem",
+        responses: { "200": { description: "OK", content: { "application/json": { schema: itemSchema } } } },
+      },
+    },
+    "/item_summary/search": {
+      get: {
+        operationId: "search",
+        responses: { "200": { description: "OK", content: { "application/json": { schema: {}, examples: { phones: { value: { total: 42 } } } } } } },
+      },
+    },
+  },
+}, "config");
+
+const client = axios.create({ adapter: createMockAdapter() });
+
+describe("mock backend", () => {
+  afterEach(() => {
+    delete process.env.EBAY_MOCK_ERROR_RATE;
+  });
+
+  it("generates examples from schemas", () => {
+    expect(generateExample(itemSchema)).toEqual({ itemId: "string", price: { value: 1, currency: "USD" }, categories: ["2024-01-01"] });
+    const recursive: OpenAPIV3.SchemaObject = { type: "object", properties: { name: { type: "string" } } };
+    recursive.properties!.parent = recursive;
+    expect(generateExample(recursive)).toEqual({ name: "string" });
+  });
+
+  it("answers operations matched by path template with examples or generated responses", async () => {
+    expect((await client.get("https://api.ebay.com/buy/browse/v1/item_summary/search", { params: { q: "phone" } })).data).toEqual({ total: 42 });
+    expect((await client.get("https://api.ebay.com/buy/browse/v1/item/v1|123|0")).data).toMatchObject({ itemId: "string" });
+    await expect(client.get("https://api.ebay.com/buy/browse/v1/unknown")).rejects.toMatchObject({ response: { status: 404 } });
+  });
+
+  it("simulates error statuses", async () => {
+    await expect(client.get("https://api.ebay.com/buy/browse/v1/item/1", { headers: { "X-EBAY-MOCK-STATUS": "503" } }))
+      .rejects.toMatchObject({ response: { status: 503 } });
+    process.env.EBAY_MOCK_ERROR_RATE = "1";
+    await expect(client.get("https://api.ebay.com/buy/browse/v1/item/1")).rejects.toMatchObject({ response: { status: expect.any(Number) } });
+  });
+});
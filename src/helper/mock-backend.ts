@@ -0,0 +1,251 @@
+/**
+ * Mock eBay backend used in the mock environment: operations of the loaded OpenAPI specs are answered with
+ * the examples of their responses, or with responses generated from the response schemas.
+ * Error statuses and latency can be simulated.
+ */
+import { AxiosHeaders, type AxiosAdapter, type AxiosResponse, type InternalAxiosRequestConfig } from "axios";
+import { type OpenAPIV3 } from "openapi-types";
+import { PLACEHOLDER_TOKEN_RESPONSE, settleResponse } from "./fixture-adapter.js";
+import { buildBaseUrlFromOpenApi } from "./http-helper.js";
+import { searchOperations } from "./search-index.js";
+import { getRegisteredSpec, getRegisteredSpecs } from "./spec-registry.js";
+import { parseApiPathFromUrl, validatePath } from "./validation-helper.js";
+
+const MOCK_STATUS_HEADER = "X-EBAY-MOCK-STATUS";
+const DEFAULT_ERROR_STATUSES = [429, 500, 503];
+const SPEC_SEARCH_PATH = "/developer/mcp/v1/search";
+const RATE_LIMIT_PATH = "/developer/analytics/v1_beta/rate_limit/";
+const OAUTH_TOKEN_PATH = "/identity/v1/oauth2/token";
+
+/**
+ * Operation of a registered spec a request is addressed to
+ */
+interface MatchedOperation {
+  specTitle: string;
+  operation: OpenAPIV3.OperationObject;
+}
+
+/**
+ * Create the adapter answering requests from the registered specs instead of sending them
+ */
+export function createMockAdapter(): AxiosAdapter {
+  return async (config) => {
+    await simulateLatency();
+    const url = buildRequestUrl(config);
+    const apiPath = parseApiPathFromUrl(url);
+    const method = (config.method || "get").toLowerCase();
+
+    if (apiPath === OAUTH_TOKEN_PATH) {
+      return buildResponse(config, 200, PLACEHOLDER_TOKEN_RESPONSE);
+    }
+    if (apiPath === RATE_LIMIT_PATH) {
+      return buildResponse(config, 200, { rateLimits: [] });
+    }
+    if (apiPath.startsWith(`${SPEC_SEARCH_PATH}/`)) {
+      const spec = getRegisteredSpec(decodeURIComponent(apiPath.slice(SPEC_SEARCH_PATH.length + 1)));
+      return spec ? buildResponse(config, 200, spec.doc) : buildErrorResponse(config, 404, `No loaded OpenAPI spec is titled ${apiPath.slice(SPEC_SEARCH_PATH.length + 1)}`);
+    }
+    if (apiPath === SPEC_SEARCH_PATH) {
+      return buildResponse(config, 200, { matches: searchOperations(new URL(url).searchParams.get("query") || "") });
+    }
+
+    const matched = findOperation(url, method);
+    if (!matched) {
+      return buildErrorResponse(config, 404, `No operation of the loaded OpenAPI specs matches ${method.toUpperCase()} ${apiPath}`);
+    }
+    const errorStatus = pickErrorStatus(config);
+    if (errorStatus !== undefined) {
+      const documented = getResponseExample(matched.operation, String(errorStatus));
+      return documented !== undefined
+        ? buildResponse(config, errorStatus, documented)
+        : buildErrorResponse(config, errorStatus, `Simulated error of ${matched.operation.operationId}`);
+    }
+    const status = pickSuccessStatus(matched.operation);
+    return buildResponse(config, status, getResponseExample(matched.operation, String(status)));
+  };
+}
+
+/**
+ * Example value of a schema: its example or default, else a value generated from its type.
+ * Recursive schemas are cut where they repeat an ancestor.
+ */
+export function generateExample(schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | undefined, ancestors: object[] = []): unknown {
+  if (!schema || "$ref" in schema || ancestors.includes(schema)) {
+    return undefined;
+  }
+  if (schema.example !== undefined) {
+    return schema.example;
+  }
+  if (schema.default !== undefined) {
+    return schema.default;
+  }
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+  const nested = [...ancestors, schema];
+  if (schema.allOf) {
+    return Object.assign({}, ...schema.allOf.map(item => generateExample(item, nested)).filter(isObject));
+  }
+  const alternative = schema.oneOf?.[0] ?? schema.anyOf?.[0];
+  if (alternative) {
+    return generateExample(alternative, nested);
+  }
+  if (schema.type === "array") {
+    const item = generateExample(schema.items, nested);
+    return item === undefined ? [] : [item];
+  }
+  if (schema.type === "object" || schema.properties) {
+    const value: Record<string, unknown> = {};
+    for (const [key, property] of Object.entries(schema.properties || {})) {
+      const propertyValue = generateExample(property, nested);
+      if (propertyValue !== undefined) {
+        value[key] = propertyValue;
+      }
+    }
+    return value;
+  }
+  switch (schema.type) {
+    case "integer":
+    case "number":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return true;
+    case "string":
+      return generateString(schema.format);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Find the operation of a registered spec by the request's path (matched like validatePath) and method
+ */
+function findOperation(url: string, method: string): MatchedOperation | undefined {
+  const apiPath = parseApiPathFromUrl(url);
+  for (const spec of getRegisteredSpecs()) {
+    // specs share paths like /item/{item_id}, the spec's base path tells them apart
+    if (!apiPath.startsWith(parseApiPathFromUrl(buildBaseUrlFromOpenApi(spec.doc)))) {
+      continue;
+    }
+    const { specPathItem } = validatePath(spec.doc, url);
+    const operation = specPathItem?.[method as keyof OpenAPIV3.PathItemObject] as OpenAPIV3.OperationObject | undefined;
+    if (operation) {
+      return { specTitle: spec.title, operation };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Example body of the documented response: the media type's example or first named example, else one generated from the schema
+ */
+function getResponseExample(operation: OpenAPIV3.OperationObject, status: string): unknown {
+  const response = operation.responses?.[status] ?? operation.responses?.[`${status[0]}XX`];
+  if (!response || "$ref" in response || !response.content) {
+    return undefined;
+  }
+  const mediaType = response.content["application/json"] ?? Object.values(response.content)[0];
+  if (!mediaType) {
+    return undefined;
+  }
+  if (mediaType.example !== undefined) {
+    return mediaType.example;
+  }
+  const namedExample = Object.values(mediaType.examples || {})[0];
+  if (namedExample && !("$ref" in namedExample) && namedExample.value !== undefined) {
+    return namedExample.value;
+  }
+  return generateExample(mediaType.schema);
+}
+
+function pickSuccessStatus(operation: OpenAPIV3.OperationObject): number {
+  const documented = Object.keys(operation.responses || {}).filter(status => /^2\d\d$/.test(status)).sort();
+  return documented.length > 0 ? Number(documented[0]) : 200;
+}
+
+/**
+ * Status of a simulated error: the X-EBAY-MOCK-STATUS request header, else a random one of EBAY_MOCK_ERROR_STATUSES
+ * for the EBAY_MOCK_ERROR_RATE share of calls
+ */
+function pickErrorStatus(config: InternalAxiosRequestConfig): number | undefined {
+  const forced = Number(AxiosHeaders.from(config.headers).get(MOCK_STATUS_HEADER));
+  if (Number.isInteger(forced) && forced >= 100) {
+    return forced >= 400 ? forced : undefined;
+  }
+  const errorRate = Number(process.env.EBAY_MOCK_ERROR_RATE);
+  if (!(errorRate > 0) || Math.random() >= errorRate) {
+    return undefined;
+  }
+  const configured = (process.env.EBAY_MOCK_ERROR_STATUSES || "").split(",").map(Number).filter(status => Number.isInteger(status) && status >= 400);
+  const statuses = configured.length > 0 ? configured : DEFAULT_ERROR_STATUSES;
+  return statuses[Math.floor(Math.random() * statuses.length)];
+}
+
+/**
+ * Wait EBAY_MOCK_LATENCY_MS, a number of milliseconds or a range like 100-500
+ */
+async function simulateLatency(): Promise<void> {
+  const [min, max] = (process.env.EBAY_MOCK_LATENCY_MS || "").split("-").map(Number);
+  if (!(min > 0)) {
+    return;
+  }
+  const delayMs = max > min ? min + Math.random() * (max - min) : min;
+  await new Promise(resolve => setTimeout(resolve, delayMs));
+}
+
+function buildErrorResponse(config: InternalAxiosRequestConfig, status: number, message: string): AxiosResponse {
+  return buildResponse(config, status, {
+    errors: [{ errorId: status, domain: "API_MOCK", category: status >= 500 ? "APPLICATION" : "REQUEST", message }],
+  });
+}
+
+function buildResponse(config: InternalAxiosRequestConfig, status: number, body: unknown): AxiosResponse {
+  const headers = new AxiosHeaders();
+  if (status === 429) {
+    headers.set("Retry-After", "1");
+  }
+  if (body !== undefined) {
+    headers.set("Content-Type", "application/json");
+  }
+  return settleResponse({
+    // specs may be recursive, so bodies are handed over parsed instead of serialized
+    data: body ?? "",
+    status,
+    statusText: status < 400 ? "OK" : "Mock Error",
+    headers,
+    config,
+    request: {},
+  });
+}
+
+function buildRequestUrl(config: InternalAxiosRequestConfig): string {
+  const url = new URL(config.url || "", config.baseURL);
+  for (const [key, value] of Object.entries((config.params || {}) as Record<string, unknown>)) {
+    if (value !== undefined && value !== null) {
+      url.searchParams.append(key, String(value));
+    }
+  }
+  return url.toString();
+}
+
+function generateString(format: string | undefined): string {
+  switch (format) {
+    case "date-time":
+      return "2024-01-01T00:00:00.000Z";
+    case "date":
+      return "2024-01-01";
+    case "uri":
+    case "url":
+      return "https://www.example.com";
+    case "email":
+      return "user@example.com";
+    case "uuid":
+      return "00000000-0000-0000-0000-000000000000";
+    default:
+      return "string";
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
@@ -5,70 +5,151 @@
 import SwaggerParser from "@apidevtools/swagger-parser";
 import { type OpenAPIV3 } from "openapi-types";
 import * as fs from "fs";
-import axios from "axios";
 import * as yaml from "js-yaml";
 import util from "util";
 import { z, type ZodTypeAny } from "zod";
-import { buildHeadersFromInput } from "../helper/http-helper.js";
+import { buildHeadersFromInput, getLocaleHeaderDefault } from "../helper/http-helper.js";
+import { requestWithRetry } from "./retry-helper.js";
+import { runWithinAuditContext } from "./audit-log.js";
+import { type EbayCredentials } from "./auth-helper.js";
+import { openApiResponseSchemaToZod, openApiSchemaToZod } from "./zod-helper.js";
+import { buildSpecCacheKey, getCachedSpec, isSpecFresh, setCachedSpec } from "./spec-cache.js";
+import { getRegisteredSpec, registerSpec } from "./spec-registry.js";
 
 
 
 const SCHEMA_REQUEST_BODY = "requestBody";
 
 /**
- * Get OpenAPI docs from user config file, which contains urls or paths of OpenAPI specs.
+ * Get OpenAPI docs from user config file, which contains urls or paths of OpenAPI specs, keyed by their url or path.
+ * On reloads, a spec that fails to load keeps its previously loaded document, and the previous specs are kept as they are
+ * while the config file can't be read, so files caught mid-save don't drop specs. Only specs removed from the file are dropped.
  */
-export async function getOpenApiDocumentsFromConfigFile(): Promise<OpenAPIV3.Document[]> {
-  const docs: OpenAPIV3.Document[] = [];
-  const urlFile = process.env.EBAY_API_DOC_URL_FILE;
-  let urls: string[] = [];
-  if (urlFile && fs.existsSync(urlFile)) {
-    // url or path each line in the file
-    urls = fs.readFileSync(urlFile, "utf-8").split(/\r?\n/)
-      .map(line => line.trim())
-      .filter(line => line.length > 0 && !line.startsWith("#"));
+export async function getOpenApiDocumentsFromConfigFile(
+  previousDocs: Map<string, OpenAPIV3.Document> = new Map(),
+): Promise<Map<string, OpenAPIV3.Document>> {
+  const urls = readSpecLocations(process.env.EBAY_API_DOC_URL_FILE);
+  if (!urls) {
+    if (previousDocs.size > 0) {
+      console.error("getOpenApiDocumentsFromConfigFile#[Cannot read EBAY_API_DOC_URL_FILE, keeping the loaded OpenAPI docs]");
+    }
+    return previousDocs;
   }
+  const docs = new Map<string, OpenAPIV3.Document>();
   console.error("Loading OpenAPI specifications from:", urls);
   // parse opebapi doc from url/path
   for (const specPath of urls) {
     try {
       const doc = await SwaggerParser.dereference(specPath) as OpenAPIV3.Document;
-      docs.push(doc);
+      docs.set(specPath, doc);
     } catch (e) {
-      console.error(`getOpenApiDocumentsFromConfigFile#[Failed to load OpenAPI doc from the specPath : ${specPath}]`);
+      const previousDoc = previousDocs.get(specPath);
+      if (previousDoc) {
+        docs.set(specPath, previousDoc);
+      }
+      console.error(`getOpenApiDocumentsFromConfigFile#[Failed to load OpenAPI doc from the specPath : ${specPath}${previousDoc ? ", keeping the loaded doc" : ""}]`);
     }
   }
   return docs;
 }
 
-// Helper: remove ignored keys recursively
-export function readSchema2Map(obj: unknown): unknown {
-  const SCHEMA_IGNORE_KEYS = ["style", "explode", "exampleSetFlag", "types", "in", "required"];
-  if (Array.isArray(obj)) {
-    return obj.map(readSchema2Map);
-  } else if (obj && typeof obj === "object") {
-    const out: Record<string, unknown> = {};
-    for (const [k, v] of Object.entries(obj as Record<string, unknown>)) {
-      if (!SCHEMA_IGNORE_KEYS.includes(k)) {
-        out[k] = readSchema2Map(v);
-      }
-    }
-    return out;
+/**
+ * Read the urls or paths of OpenAPI specs listed in the user config file, one per line, blank lines and # comments skipped.
+ * Returns undefined when the file is not set or can't be read.
+ */
+export function readSpecLocations(urlFile: string | undefined): string[] | undefined {
+  if (!urlFile) {
+    return undefined;
+  }
+  try {
+    return fs.readFileSync(urlFile, "utf-8").split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && !line.startsWith("#"));
+  } catch (_error) {
+    return undefined;
+  }
+}
+
+/**
+ * Query api spec and parse to OpenAPI document (supports both JSON and YAML).
+ * Specs loaded from the user config file are used directly, fetched specs are added to the spec registry.
+ * The spec search endpoint is called with the caller's credentials.
+ */
+export async function queryAndParseOpenApiDoc(
+  specTitle: string,
+  operationId : string,
+  specUrl: string,
+  credentials: EbayCredentials,
+): Promise<OpenAPIV3.Document> {
+  const registeredSpec = getRegisteredSpec(specTitle);
+  if (registeredSpec?.source === "config") {
+    return registeredSpec.doc;
   }
-  return obj;
+  const doc = await fetchOpenApiDoc(specTitle, operationId, specUrl, credentials);
+  registerSpec(doc, "fetched", specTitle);
+  return doc;
 }
 
 /**
- * Query api spec and parse to OpenAPI document (supports both JSON and YAML)
+ * Fetch api spec from the spec search endpoint. Specs are cached; stale entries are revalidated
+ * with ETag/Last-Modified and served as-is when the spec search endpoint is unavailable.
  */
-export async function queryAndParseOpenApiDoc(specTitle: string, operationId : string, specUrl: string): Promise<OpenAPIV3.Document> {
+async function fetchOpenApiDoc(specTitle: string, operationId : string, specUrl: string, credentials: EbayCredentials): Promise<OpenAPIV3.Document> {
+  const cacheKey = buildSpecCacheKey(specTitle, operationId);
+  const cached = getCachedSpec(cacheKey);
+  if (cached && isSpecFresh(cached)) {
+    return cached.doc;
+  }
+
   const url = util.format(specUrl, specTitle, operationId);
-  const apiSpecRes = await axios.get<string>(url,  {
-    headers: buildHeadersFromInput(undefined, false),
-    httpsAgent: new (await import("https")).Agent({
-      rejectUnauthorized: false,
-    })});
-  const docString = apiSpecRes.data;
+  const headers = await buildHeadersFromInput(undefined, false, credentials);
+  if (cached?.etag) {
+    headers["If-None-Match"] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    headers["If-Modified-Since"] = cached.lastModified;
+  }
+  let apiSpecRes;
+  try {
+    apiSpecRes = await runWithinAuditContext({ kind: "spec_lookup" }, () => requestWithRetry<unknown>({
+      url,
+      method: "get",
+      headers,
+      validateStatus: status => (status >= 200 && status < 300) || (status === 304 && cached !== undefined),
+    }, credentials));
+  } catch (error) {
+    if (cached) {
+      console.error(`queryAndParseOpenApiDoc#[Spec search failed, serving cached spec for ${cacheKey}]`);
+      return cached.doc;
+    }
+    throw error;
+  }
+  if (apiSpecRes.status === 304 && cached) {
+    setCachedSpec(cacheKey, { ...cached, fetchedAt: Date.now() });
+    return cached.doc;
+  }
+
+  const doc = parseOpenApiDoc(apiSpecRes.data);
+  if (Object.keys(doc).length > 0) {
+    setCachedSpec(cacheKey, {
+      doc,
+      fetchedAt: Date.now(),
+      etag: apiSpecRes.headers["etag"] as string | undefined,
+      lastModified: apiSpecRes.headers["last-modified"] as string | undefined,
+    });
+  }
+  return doc;
+}
+
+/**
+ * Parse api spec response data to OpenAPI document
+ */
+function parseOpenApiDoc(data: unknown): OpenAPIV3.Document {
+  if (data && typeof data === "object") {
+    // already parsed as JSON by axios
+    return data as OpenAPIV3.Document;
+  }
+  const docString = String(data);
   try {
     // Try parsing as JSON first
     return JSON.parse(docString) as OpenAPIV3.Document;
@@ -86,34 +167,66 @@ export async function queryAndParseOpenApiDoc(specTitle: string, operationId : s
 }
 
 /**
- * Build schema for an operation's input parameters
+ * Build schema for an operation's input parameters, one property per parameter plus the request body.
+ * Headers with a configured marketplace or locale default are optional, the default is filled in when they are left out.
  */
-export function buildOperationSchema(operation: OpenAPIV3.OperationObject): { properties: Record<string, unknown> } {
-  const properties: Record<string, unknown> = {};
+export function buildOperationSchema(operation: OpenAPIV3.OperationObject): { properties: Record<string, OpenAPIV3.SchemaObject>; required: string[] } {
+  const properties: Record<string, OpenAPIV3.SchemaObject> = {};
+  const required: string[] = [];
   // handle request param
   (operation.parameters || []).forEach(param => {
     if ("$ref" in param) {return;}
-    const paramSchema = readSchema2Map(param);
-    properties[param.name] = paramSchema;
+    const paramSchema = param.schema && !("$ref" in param.schema) ? param.schema : {};
+    properties[param.name] = { ...paramSchema, description: param.description || paramSchema.description };
+    if (param.required && !(param.in === "header" && getLocaleHeaderDefault(param.name))) {
+      required.push(param.name);
+    }
   });
   // handle request body
   if (operation.requestBody && "content" in operation.requestBody &&
       operation.requestBody.content?.["application/json"]?.schema) {
-    const requestBodySchema = readSchema2Map(operation.requestBody.content["application/json"].schema);
-    properties[SCHEMA_REQUEST_BODY] = requestBodySchema;
+    const requestBodySchema = operation.requestBody.content["application/json"].schema;
+    if (!("$ref" in requestBodySchema)) {
+      properties[SCHEMA_REQUEST_BODY] = requestBodySchema;
+      if (operation.requestBody.required) {
+        required.push(SCHEMA_REQUEST_BODY);
+      }
+    }
   }
-  return { properties };
+  return { properties, required };
 }
 
 /**
- * Build Zod validation schema
+ * Build Zod validation schema, required properties are mandatory and the rest optional
  */
-export function buildZodSchema(properties: Record<string, unknown>): Record<string, ZodTypeAny> {
+export function buildZodSchema(operationSchema: { properties: Record<string, OpenAPIV3.SchemaObject>; required: string[] }): Record<string, ZodTypeAny> {
   const zodProperties: Record<string, ZodTypeAny> = {};
 
-  Object.keys(properties).forEach(key => {
-    zodProperties[key] = z.any();
+  Object.entries(operationSchema.properties).forEach(([key, schema]) => {
+    const zodProperty = openApiSchemaToZod(schema);
+    zodProperties[key] = operationSchema.required.includes(key) ? zodProperty : zodProperty.optional();
   });
 
   return zodProperties;
 }
+
+/**
+ * Get the JSON schema of the operation's first 2xx response, undefined if it has none
+ */
+export function getSuccessResponseSchema(operation: OpenAPIV3.OperationObject): OpenAPIV3.SchemaObject | undefined {
+  const response = Object.entries(operation.responses || {}).find(([status]) => status.startsWith("2"))?.[1];
+  if (!response || "$ref" in response) {
+    return undefined;
+  }
+  const schema = response.content?.["application/json"]?.schema;
+  return schema && !("$ref" in schema) ? schema : undefined;
+}
+
+/**
+ * Build the tool output schema from the operation's 2xx response schema.
+ * Returns undefined unless the response is an object, tool output must be a JSON object.
+ */
+export function buildOutputSchema(operation: OpenAPIV3.OperationObject): z.AnyZodObject | undefined {
+  const outputSchema = openApiResponseSchemaToZod(getSuccessResponseSchema(operation));
+  return outputSchema instanceof z.ZodObject ? outputSchema : undefined;
+}
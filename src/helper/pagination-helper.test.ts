@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from "vitest";
+import { type AxiosRequestConfig } from "axios";
+import { type OpenAPIV3 } from "openapi-types";
+import { requestWithTokenRefresh } from "./http-helper.js";
+import { isPaginatedOperation, requestAllPages } from "./pagination-helper.js";
+
+vi.mock("./http-helper.js", () => ({ requestWithTokenRefresh: vi.fn() }));
+vi.mock("./rate-limiter.js", () => ({ acquireCallPermit: vi.fn() }));
+
+const requestMock = vi.mocked(requestWithTokenRefresh);
+
+const getOrders: OpenAPIV3.OperationObject = {
+  operationId: "getOrders",
+  parameters: [{ name: "offset", in: "query" }, { name: "limit", in: "query" }],
+  responses: {},
+};
+
+describe("pagination", () => {
+  it("detects paginated operations", () => {
+    expect(isPaginatedOperation(getOrders)).toBe(true);
+    expect(isPaginatedOperation({ operationId: "getItem", responses: {} })).toBe(false);
+  });
+
+  it("follows next links and merges the items", async () => {
+    requestMock.mockReset()
+      .mockResolvedValueOnce({ data: { total: 3, next: "https://api.ebay.com/page2", itemSummaries: [1, 2] } } as never)
+      .mockResolvedValueOnce({ data: { total: 3, itemSummaries: [3] } } as never);
+
+    const result = await requestAllPages({ url: "https://api.ebay.com/page1", params: { q: "x" } }, {}, undefined, {});
+
+    expect(requestMock.mock.calls[1][0]).toMatchObject({ url: "https://api.ebay.com/page2", params: undefined });
+    expect(result.data).toEqual({ total: 3, itemSummaries: [1, 2, 3] });
+    expect(result.pagination).toEqual({ pagesFetched: 2, itemCount: 3, total: 3, truncated: false });
+  });
+
+  it("increments offset and stops at maxItems", async () => {
+    requestMock.mockReset().mockImplementation(async (config: AxiosRequestConfig) => {
+      const offset = Number((config.params as Record<string, unknown>).offset || 0);
+      return { data: { total: 10, offset, limit: 2, orders: [offset, offset + 1] } } as never;
+    });
+
+    const result = await requestAllPages({ url: "https://api.ebay.com/order", params: { limit: 2 } }, {}, getOrders, { maxItems: 5 });
+
+    expect(requestMock.mock.calls.map(([config]) => (config.params as Record<string, unknown>).offset)).toEqual([undefined, 2, 4]);
+    expect(result.data).toEqual({ total: 10, orders: [0, 1, 2, 3, 4] });
+    expect(result.pagination).toEqual({ pagesFetched: 3, itemCount: 5, total: 10, truncated: true });
+  });
+});
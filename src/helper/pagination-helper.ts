@@ -0,0 +1,152 @@
+/**
+ * Pagination helper functions, following `next` links or offset/limit parameters of eBay list
+ * and search operations and merging the item arrays of every page into a single response.
+ */
+import { type AxiosRequestConfig } from "axios";
+import { type OpenAPIV3 } from "openapi-types";
+import { z } from "zod";
+import { DEFAULT_PAGINATION_MAX_ITEMS, DEFAULT_PAGINATION_MAX_PAGES } from "../constant/constants.js";
+import { type EbayCredentials } from "./auth-helper.js";
+import { getSuccessResponseSchema } from "./openapi-helper.js";
+import { requestWithRetry, type RetryStats } from "./retry-helper.js";
+
+/**
+ * Input key holding the pagination options of a tool call
+ */
+export const PAGINATION_INPUT_KEY = "pagination";
+
+/**
+ * Schema of the pagination options, pagination only happens when the tool input contains them
+ */
+export const PAGINATION_SCHEMA = z.object({
+  maxPages: z.number().int().min(1).optional().describe(`Maximum number of pages to fetch, default ${DEFAULT_PAGINATION_MAX_PAGES}`),
+  maxItems: z.number().int().min(1).optional().describe(`Maximum number of items to return, default ${DEFAULT_PAGINATION_MAX_ITEMS}`),
+}).optional().describe("Set to fetch every page of the result and merge the items, e.g. {} or {\"maxPages\": 3}");
+
+/**
+ * Options of a paginated call
+ */
+export type PaginationOptions = NonNullable<z.infer<typeof PAGINATION_SCHEMA>>;
+
+/**
+ * Summary of a paginated call, reported to the model with the merged response
+ */
+export interface PaginationSummary {
+  pagesFetched: number;
+  itemCount: number;
+  total?: number;
+  truncated: boolean;
+}
+
+/**
+ * Whether the operation returns pages: it takes offset and limit query parameters or its response has a next link
+ */
+export function isPaginatedOperation(operation: OpenAPIV3.OperationObject): boolean {
+  if (hasOffsetLimitParameters(operation)) {
+    return true;
+  }
+  const schema = getSuccessResponseSchema(operation);
+  return Boolean(schema?.properties?.next);
+}
+
+/**
+ * Send the request and follow its pages until there are no more or a cap is reached.
+ * The merged response is the first page with the items of every page, with the status and content type of the first page.
+ */
+export async function requestAllPages(
+  config: AxiosRequestConfig,
+  credentials: EbayCredentials,
+  operation: OpenAPIV3.OperationObject | undefined,
+  options: PaginationOptions,
+  retryStats?: RetryStats,
+): Promise<{ data: unknown; status: number; contentType?: string; pagination: PaginationSummary }> {
+  const maxPages = options.maxPages || DEFAULT_PAGINATION_MAX_PAGES;
+  const maxItems = options.maxItems || DEFAULT_PAGINATION_MAX_ITEMS;
+  const useOffset = operation !== undefined && hasOffsetLimitParameters(operation);
+
+  const first = await requestWithRetry<unknown>(config, credentials, retryStats);
+  const firstPage = first.data;
+  const status = first.status;
+  const contentType = first.headers?.["content-type"] as string | undefined;
+  const itemsKey = isRecord(firstPage) ? findItemsKey(firstPage) : undefined;
+  if (!isRecord(firstPage) || !itemsKey) {
+    return { data: firstPage, status, contentType, pagination: { pagesFetched: 1, itemCount: 0, truncated: false } };
+  }
+
+  const items = [...(firstPage[itemsKey] as unknown[])];
+  let page: Record<string, unknown> = firstPage;
+  let pagesFetched = 1;
+  let nextConfig = buildNextPageConfig(config, page, items.length, useOffset);
+  while (nextConfig && pagesFetched < maxPages && items.length < maxItems) {
+    const resp = await requestWithRetry<unknown>(nextConfig, credentials, retryStats);
+    pagesFetched++;
+    if (!isRecord(resp.data) || !Array.isArray(resp.data[itemsKey]) || resp.data[itemsKey].length === 0) {
+      nextConfig = undefined;
+      break;
+    }
+    page = resp.data;
+    items.push(...(page[itemsKey] as unknown[]));
+    nextConfig = buildNextPageConfig(nextConfig, page, items.length, useOffset);
+  }
+
+  const total = typeof firstPage.total === "number" ? firstPage.total : undefined;
+  const truncated = items.length > maxItems || nextConfig !== undefined;
+  const mergedItems = items.slice(0, maxItems);
+  // page specific fields of the first page no longer describe the merged response
+  const { next: _next, prev: _prev, offset: _offset, limit: _limit, ...rest } = firstPage;
+  return {
+    data: { ...rest, [itemsKey]: mergedItems },
+    status,
+    contentType,
+    pagination: { pagesFetched, itemCount: mergedItems.length, total, truncated },
+  };
+}
+
+/**
+ * Request of the page after the given one, undefined on the last page
+ */
+function buildNextPageConfig(
+  config: AxiosRequestConfig,
+  page: Record<string, unknown>,
+  fetchedItems: number,
+  useOffset: boolean,
+): AxiosRequestConfig | undefined {
+  // the next link already holds every query parameter of the next page
+  if (typeof page.next === "string" && page.next.length > 0) {
+    return { ...config, url: page.next, params: undefined };
+  }
+  if (!useOffset || typeof page.total !== "number" || fetchedItems >= page.total) {
+    return undefined;
+  }
+  const params = { ...(config.params as Record<string, unknown> | undefined) };
+  const limit = Number(params.limit ?? page.limit);
+  if (!Number.isFinite(limit) || limit <= 0) {
+    return undefined;
+  }
+  const offset = Number(params.offset ?? page.offset ?? 0);
+  return { ...config, params: { ...params, offset: offset + limit } };
+}
+
+/**
+ * Key of the item array in a page, the largest array at the top level of the response
+ */
+function findItemsKey(page: Record<string, unknown>): string | undefined {
+  let itemsKey: string | undefined;
+  for (const [key, value] of Object.entries(page)) {
+    if (Array.isArray(value) && (!itemsKey || value.length > (page[itemsKey] as unknown[]).length)) {
+      itemsKey = key;
+    }
+  }
+  return itemsKey;
+}
+
+function hasOffsetLimitParameters(operation: OpenAPIV3.OperationObject): boolean {
+  const queryParams = (operation.parameters || [])
+    .filter((param): param is OpenAPIV3.ParameterObject => !("$ref" in param) && param.in === "query")
+    .map(param => param.name);
+  return queryParams.includes("offset") && queryParams.includes("limit");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
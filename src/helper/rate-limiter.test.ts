@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { acquireCallPermit, getApiFamily, getLocalUsage } from "./rate-limiter.js";
+
+describe("rate limiter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    delete process.env.EBAY_DAILY_CALL_BUDGET;
+    delete process.env.EBAY_RATE_LIMIT_PER_SECOND;
+  });
+
+  it("derives the API family from the url path", () => {
+    expect(getApiFamily("https://api.ebay.com/buy/browse/v1/item_summary/search?q=phone")).toBe("buy/browse");
+    expect(getApiFamily("not a url")).toBe("default");
+  });
+
+  it("rejects calls once the daily budget is used up", async () => {
+    process.env.EBAY_DAILY_CALL_BUDGET = "sell/fulfillment=2,default=100";
+    const url = "https://api.ebay.com/sell/fulfillment/v1/order";
+
+    await acquireCallPermit(url);
+    await acquireCallPermit(url);
+    await expect(acquireCallPermit(url)).rejects.toThrow("Daily call budget of 2 calls for sell/fulfillment APIs is used up");
+
+    expect(getLocalUsage().find(usage => usage.family === "sell/fulfillment")).toMatchObject({
+      callsToday: 2, rejectedToday: 1, dailyBudget: 2, remainingToday: 0, ratePerSecond: 5,
+    });
+  });
+
+  it("spaces calls beyond the per second rate", async () => {
+    process.env.EBAY_RATE_LIMIT_PER_SECOND = "commerce/taxonomy=20";
+    const url = "https://api.ebay.com/commerce/taxonomy/v1/category_tree/0";
+    vi.useFakeTimers();
+    let granted = 0;
+
+    const permits = Promise.all(Array.from({ length: 22 }, () => acquireCallPermit(url).then(() => granted++)));
+
+    // the bucket holds a second's worth of calls, the rest wait 50ms each
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toBe(20);
+    await vi.advanceTimersByTimeAsync(49);
+    expect(granted).toBe(20);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(granted).toBe(21);
+    await vi.advanceTimersByTimeAsync(50);
+    expect(granted).toBe(22);
+    await permits;
+  });
+});
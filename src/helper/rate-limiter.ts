@@ -0,0 +1,167 @@
+/**
+ * Client-side rate limiter in front of every eBay API call: a token bucket per API family
+ * and an optional daily call budget, so an agent in a loop can't exhaust the application's quota.
+ * An API family is the first two path segments of the url (e.g. "buy/browse"), limits can be configured
+ * by family, by the title of a loaded spec, or with "default".
+ */
+import { DEFAULT_RATE_LIMIT_PER_SECOND } from "../constant/constants.js";
+import { buildBaseUrlFromOpenApi } from "./http-helper.js";
+import { getRegisteredSpecs } from "./spec-registry.js";
+
+const DEFAULT_LIMIT_KEY = "default";
+
+/**
+ * Local usage of an API family, reported by the quota status tool
+ */
+export interface ApiFamilyUsage {
+  family: string;
+  callsToday: number;
+  rejectedToday: number;
+  dailyBudget?: number;
+  remainingToday?: number;
+  ratePerSecond: number;
+}
+
+interface FamilyState {
+  tokens: number;
+  refilledAt: number;
+  day: string;
+  callsToday: number;
+  rejectedToday: number;
+  // callers waiting for a token, served in order
+  queue: Promise<void>;
+}
+
+const familyStates = new Map<string, FamilyState>();
+
+/**
+ * Wait for a call permit of the url's API family. Throws when the family's daily budget is used up.
+ */
+export async function acquireCallPermit(url: string | undefined): Promise<void> {
+  const family = getApiFamily(url);
+  const state = getFamilyState(family);
+  const dailyBudget = findLimit(parseLimits(process.env.EBAY_DAILY_CALL_BUDGET), family);
+  rollOverDay(state);
+  if (dailyBudget !== undefined && state.callsToday >= dailyBudget) {
+    state.rejectedToday++;
+    throw new Error(`Daily call budget of ${dailyBudget} calls for ${family} APIs is used up, the call was not sent to eBay`);
+  }
+  // counted up front, so concurrent callers can't overshoot the budget while waiting for a token
+  state.callsToday++;
+
+  const ratePerSecond = getRatePerSecond(family);
+  const turn = state.queue.then(() => waitForToken(state, ratePerSecond));
+  state.queue = turn.catch(() => undefined);
+  await turn;
+}
+
+/**
+ * Local usage of every API family called today
+ */
+export function getLocalUsage(): ApiFamilyUsage[] {
+  const budgets = parseLimits(process.env.EBAY_DAILY_CALL_BUDGET);
+  return [...familyStates.entries()].map(([family, state]) => {
+    rollOverDay(state);
+    const dailyBudget = findLimit(budgets, family);
+    return {
+      family,
+      callsToday: state.callsToday,
+      rejectedToday: state.rejectedToday,
+      dailyBudget,
+      remainingToday: dailyBudget !== undefined ? Math.max(0, dailyBudget - state.callsToday) : undefined,
+      ratePerSecond: getRatePerSecond(family),
+    };
+  });
+}
+
+/**
+ * API family of a url, the first two path segments such as "buy/browse" or "sell/fulfillment"
+ */
+export function getApiFamily(url: string | undefined): string {
+  try {
+    const segments = new URL(url || "").pathname.split("/").filter(segment => segment.length > 0);
+    return segments.length > 0 ? segments.slice(0, 2).join("/") : DEFAULT_LIMIT_KEY;
+  } catch (_error) {
+    return DEFAULT_LIMIT_KEY;
+  }
+}
+
+async function waitForToken(state: FamilyState, ratePerSecond: number): Promise<void> {
+  const now = Date.now();
+  state.tokens = Math.min(ratePerSecond, state.tokens + (now - state.refilledAt) / 1000 * ratePerSecond);
+  state.refilledAt = now;
+  if (state.tokens < 1) {
+    const waitMs = Math.ceil((1 - state.tokens) / ratePerSecond * 1000);
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+    state.tokens = 1;
+    state.refilledAt = Date.now();
+  }
+  state.tokens--;
+}
+
+function getFamilyState(family: string): FamilyState {
+  let state = familyStates.get(family);
+  if (!state) {
+    state = {
+      tokens: getRatePerSecond(family),
+      refilledAt: Date.now(),
+      day: currentDay(),
+      callsToday: 0,
+      rejectedToday: 0,
+      queue: Promise.resolve(),
+    };
+    familyStates.set(family, state);
+  }
+  return state;
+}
+
+function getRatePerSecond(family: string): number {
+  return findLimit(parseLimits(process.env.EBAY_RATE_LIMIT_PER_SECOND), family) ?? DEFAULT_RATE_LIMIT_PER_SECOND;
+}
+
+/**
+ * Daily counters restart at midnight UTC, like eBay's call limits
+ */
+function rollOverDay(state: FamilyState): void {
+  const day = currentDay();
+  if (state.day !== day) {
+    state.day = day;
+    state.callsToday = 0;
+    state.rejectedToday = 0;
+  }
+}
+
+function currentDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Parse "buy/browse=10,Fulfillment API=2,default=5" into a map, keys are families or spec titles
+ */
+function parseLimits(value: string | undefined): Map<string, number> {
+  const limits = new Map<string, number>();
+  for (const entry of (value || "").split(",")) {
+    const separator = entry.lastIndexOf("=");
+    const key = entry.slice(0, separator).trim();
+    const limit = Number(entry.slice(separator + 1));
+    if (separator > 0 && key && Number.isFinite(limit) && limit > 0) {
+      limits.set(key, limit);
+    }
+  }
+  return limits;
+}
+
+/**
+ * Limit of the family: configured for the family itself, for a loaded spec served from it, or the default
+ */
+function findLimit(limits: Map<string, number>, family: string): number | undefined {
+  if (limits.has(family)) {
+    return limits.get(family);
+  }
+  for (const spec of getRegisteredSpecs()) {
+    if (limits.has(spec.title) && getApiFamily(buildBaseUrlFromOpenApi(spec.doc)) === family) {
+      return limits.get(spec.title);
+    }
+  }
+  return limits.get(DEFAULT_LIMIT_KEY);
+}
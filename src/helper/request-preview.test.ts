@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { previewRequest, redactHeaders } from "./request-preview.js";
+
+describe("request preview", () => {
+  it("redacts credentials and keeps other headers", () => {
+    expect(redactHeaders({ Authorization: "Bearer v^1.1#abc", "X-EBAY-C-MARKETPLACE-ID": "EBAY_US", Cookie: "s=1" })).toEqual({
+      Authorization: "Bearer ***",
+      "X-EBAY-C-MARKETPLACE-ID": "EBAY_US",
+      Cookie: "***",
+    });
+  });
+
+  it("builds the final url and an equivalent curl command", () => {
+    const preview = previewRequest({
+      url: "https://api.ebay.com/sell/inventory/v1/offer",
+      method: "post",
+      headers: { Authorization: "Bearer token", Host: "api.ebay.com" },
+      params: { sku: "it's", tag: ["a", "b"], empty: undefined },
+      data: { sku: "it's" },
+    });
+    expect(preview.method).toBe("POST");
+    expect(preview.queryString).toBe("sku=it%27s&tag=a&tag=b");
+    expect(preview.url).toBe("https://api.ebay.com/sell/inventory/v1/offer?sku=it%27s&tag=a&tag=b");
+    expect(preview.curl).toBe([
+      "curl -X POST 'https://api.ebay.com/sell/inventory/v1/offer?sku=it%27s&tag=a&tag=b'",
+      "-H 'Authorization: Bearer ***'",
+      "--data-raw '{\"sku\":\"it'\\''s\"}'",
+    ].join(" \\\n  "));
+  });
+});
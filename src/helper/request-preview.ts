@@ -0,0 +1,91 @@
+/**
+ * Request preview helper functions for dry runs, describing the fully resolved request
+ * (with secrets redacted) and an equivalent curl command instead of sending it.
+ */
+import { type AxiosRequestConfig } from "axios";
+import { z } from "zod";
+
+/**
+ * Input key of the dry run option of a tool call
+ */
+export const DRY_RUN_INPUT_KEY = "dryRun";
+
+/**
+ * Schema of the dry run option
+ */
+export const DRY_RUN_SCHEMA = z.boolean().optional()
+  .describe("Validate and build the request, then return it with an equivalent curl command instead of calling eBay");
+
+const REDACTED = "***";
+const SENSITIVE_HEADERS = ["authorization", "cookie", "x-ebay-client-secret", "x-ebay-client-token", "x-ebay-c-enduserctx"];
+
+/**
+ * Request as it would be sent to eBay
+ */
+export interface RequestPreview {
+  method: string;
+  url: string;
+  queryString: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  curl: string;
+}
+
+/**
+ * Describe the request the config would send, secrets in headers are redacted
+ */
+export function previewRequest(config: AxiosRequestConfig): RequestPreview {
+  const method = (config.method || "get").toUpperCase();
+  const queryString = buildQueryString(config.params as Record<string, unknown> | undefined);
+  const url = queryString ? `${config.url}${config.url?.includes("?") ? "&" : "?"}${queryString}` : config.url || "";
+  const headers = redactHeaders((config.headers || {}) as Record<string, string>);
+  const body = config.data;
+  return { method, url, queryString, headers, body, curl: buildCurlCommand(method, url, headers, body) };
+}
+
+/**
+ * Replace the values of headers carrying credentials, keeping the auth scheme
+ */
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (!SENSITIVE_HEADERS.includes(name.toLowerCase())) {
+      redacted[name] = String(value);
+      continue;
+    }
+    const scheme = /^(Bearer|Basic)\s/i.exec(String(value));
+    redacted[name] = scheme ? `${scheme[1]} ${REDACTED}` : REDACTED;
+  }
+  return redacted;
+}
+
+function buildQueryString(params: Record<string, unknown> | undefined): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params || {})) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    for (const item of Array.isArray(value) ? value : [value]) {
+      query.append(key, typeof item === "object" ? JSON.stringify(item) : String(item));
+    }
+  }
+  return query.toString();
+}
+
+function buildCurlCommand(method: string, url: string, headers: Record<string, string>, body: unknown): string {
+  const parts = [`curl -X ${method} ${quoteShell(url)}`];
+  for (const [name, value] of Object.entries(headers)) {
+    // curl sets Host from the url
+    if (name.toLowerCase() !== "host") {
+      parts.push(`-H ${quoteShell(`${name}: ${value}`)}`);
+    }
+  }
+  if (body !== undefined && body !== null) {
+    parts.push(`--data-raw ${quoteShell(typeof body === "string" ? body : JSON.stringify(body))}`);
+  }
+  return parts.join(" \\\n  ");
+}
+
+function quoteShell(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
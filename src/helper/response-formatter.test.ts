@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { fitsOutputSize, formatResponse, limitArrays, selectFields, truncateText } from "./response-formatter.js";
+
+const searchResponse = {
+  total: 2,
+  href: "https://api.ebay.com/buy/browse/v1/item_summary/search?q=phone",
+  itemSummaries: [
+    { itemId: "1", title: "Phone", price: { value: "10.00", currency: "USD" }, image: { imageUrl: "a" } },
+    { itemId: "2", title: "Case", price: { value: "2.00", currency: "USD" }, image: { imageUrl: "b" } },
+  ],
+};
+
+describe("response formatter", () => {
+  it("selects fields by path, traversing arrays", () => {
+    expect(selectFields(searchResponse, ["$.total", "itemSummaries[*].title", "itemSummaries.price.value"])).toEqual({
+      total: 2,
+      itemSummaries: [{ title: "Phone", price: { value: "10.00" } }, { title: "Case", price: { value: "2.00" } }],
+    });
+    expect(selectFields(searchResponse, ["missing"])).toEqual({});
+  });
+
+  it("limits arrays at every level", () => {
+    expect(limitArrays({ a: [1, 2, 3], b: [{ c: [4, 5] }] }, 1)).toEqual({ a: [1], b: [{ c: [4] }] });
+  });
+
+  it("serializes compact JSON and truncates with a marker", () => {
+    expect(formatResponse({ total: 2 }, { compact: true })).toBe("{\"total\":2}");
+    expect(formatResponse(undefined)).toBe("No response body");
+
+    const truncated = truncateText("x".repeat(20), 5);
+    expect(truncated.startsWith("xxxxx\n...[truncated 15 of 20 characters")).toBe(true);
+    expect(formatResponse(searchResponse, { maxChars: 10 })).toContain("[truncated");
+  });
+
+  it("checks values against the maximum output size", () => {
+    expect(fitsOutputSize({ total: 2 }, { maxChars: 11 })).toBe(true);
+    expect(fitsOutputSize(searchResponse, { maxChars: 100 })).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Response formatter shared by every tool: selects fields, slices arrays, serializes the response
+ * as pretty or compact JSON and truncates it to the maximum output size.
+ */
+import { z } from "zod";
+import { DEFAULT_MAX_OUTPUT_CHARS } from "../constant/constants.js";
+
+/**
+ * Input key holding the output options of a tool call
+ */
+export const OUTPUT_INPUT_KEY = "output";
+
+/**
+ * Schema of the output options
+ */
+export const OUTPUT_OPTIONS_SCHEMA = z.object({
+  fields: z.array(z.string()).optional()
+    .describe("Only return these fields, as dot paths like \"total\" or \"itemSummaries[*].price.value\" (a leading \"$.\" is allowed)"),
+  arrayLimit: z.number().int().min(0).optional().describe("Return at most this many elements of every array"),
+  maxChars: z.number().int().min(1).optional().describe("Maximum number of characters of the response"),
+  compact: z.boolean().optional().describe("Return compact JSON without indentation"),
+}).optional().describe("Options to shrink the response: field selection, array limit, size limit and compact JSON");
+
+/**
+ * Options of the response formatting
+ */
+export type OutputOptions = NonNullable<z.infer<typeof OUTPUT_OPTIONS_SCHEMA>>;
+
+type PathSegment = string | number | "*";
+
+/**
+ * Format a response for a tool result. Strings are only truncated, everything else is projected and serialized.
+ */
+export function formatResponse(data: unknown, options: OutputOptions = {}): string {
+  const maxChars = options.maxChars || getDefaultMaxChars();
+  if (data === undefined || data === null || data === "") {
+    return "No response body";
+  }
+  if (typeof data === "string") {
+    return truncateText(data, maxChars);
+  }
+  const compact = options.compact ?? process.env.EBAY_MCP_COMPACT_JSON === "true";
+  return truncateText(JSON.stringify(projectResponse(data, options), null, compact ? undefined : 2) ?? "", maxChars);
+}
+
+/**
+ * Apply the field selection and array limit of the output options to a response
+ */
+export function projectResponse(data: unknown, options: OutputOptions = {}): unknown {
+  let value = options.fields && options.fields.length > 0 ? selectFields(data, options.fields) : data;
+  if (options.arrayLimit !== undefined) {
+    value = limitArrays(value, options.arrayLimit);
+  }
+  return value;
+}
+
+/**
+ * Build a copy of the value holding only the given field paths, keeping their position in the structure.
+ * Arrays are traversed implicitly, so "itemSummaries.title" selects the title of every item.
+ */
+export function selectFields(data: unknown, fields: string[]): unknown {
+  let selected: unknown = undefined;
+  for (const field of fields) {
+    selected = mergeSelection(selected, pickPath(data, parsePath(field)));
+  }
+  return selected ?? {};
+}
+
+/**
+ * Slice every array in the value to at most limit elements
+ */
+export function limitArrays(value: unknown, limit: number): unknown {
+  if (Array.isArray(value)) {
+    return value.slice(0, limit).map(item => limitArrays(item, limit));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, limitArrays(item, limit)]));
+  }
+  return value;
+}
+
+/**
+ * Whether the value, serialized as compact JSON, fits the maximum output size of the output options
+ */
+export function fitsOutputSize(value: unknown, options: OutputOptions = {}): boolean {
+  return (JSON.stringify(value) ?? "").length <= (options.maxChars || getDefaultMaxChars());
+}
+
+/**
+ * Cut text to maxChars, ending with a marker telling how much was left out
+ */
+export function truncateText(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text;
+  }
+  return `${text.slice(0, maxChars)}\n...[truncated ${text.length - maxChars} of ${text.length} characters, use the output options (fields, arrayLimit) to narrow the response]`;
+}
+
+function getDefaultMaxChars(): number {
+  const maxChars = Number(process.env.EBAY_MCP_MAX_OUTPUT_CHARS);
+  return Number.isInteger(maxChars) && maxChars > 0 ? maxChars : DEFAULT_MAX_OUTPUT_CHARS;
+}
+
+/**
+ * Parse "$.a.b[0].c[*]" into ["a", "b", 0, "c", "*"]
+ */
+function parsePath(field: string): PathSegment[] {
+  return field.replace(/^\$\.?/, "")
+    .split(/\.|(?=\[)/)
+    .filter(segment => segment.length > 0)
+    .map(segment => {
+      const index = /^\[(\d+|\*)\]$/.exec(segment);
+      if (!index) {
+        return segment;
+      }
+      return index[1] === "*" ? "*" : Number(index[1]);
+    });
+}
+
+function pickPath(value: unknown, path: PathSegment[]): unknown {
+  if (path.length === 0) {
+    return value;
+  }
+  const [segment, ...rest] = path;
+  if (Array.isArray(value)) {
+    if (typeof segment === "number") {
+      // other positions are left empty so the merge of several paths keeps the elements aligned
+      const picked = segment < value.length ? pickPath(value[segment], rest) : undefined;
+      return picked === undefined ? undefined : Object.assign([], { [segment]: picked });
+    }
+    const items = value.map(item => pickPath(item, segment === "*" ? rest : path));
+    return items.some(item => item !== undefined) ? items : undefined;
+  }
+  if (value && typeof value === "object" && typeof segment === "string" && segment in value) {
+    const picked = pickPath((value as Record<string, unknown>)[segment], rest);
+    return picked === undefined ? undefined : { [segment]: picked };
+  }
+  return undefined;
+}
+
+function mergeSelection(target: unknown, source: unknown): unknown {
+  if (target === undefined) {
+    return source;
+  }
+  if (source === undefined) {
+    return target;
+  }
+  if (Array.isArray(target) && Array.isArray(source)) {
+    return Array.from({ length: Math.max(target.length, source.length) }, (_, i) => mergeSelection(target[i], source[i]));
+  }
+  if (target && typeof target === "object" && source && typeof source === "object") {
+    const merged: Record<string, unknown> = { ...(target as Record<string, unknown>) };
+    for (const [key, value] of Object.entries(source)) {
+      merged[key] = mergeSelection(merged[key], value);
+    }
+    return merged;
+  }
+  return source;
+}
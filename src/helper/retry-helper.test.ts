@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from "vitest";
+import { AxiosError, type AxiosResponse } from "axios";
+import { requestWithTokenRefresh } from "./http-helper.js";
+import { getRetryDelay, requestWithRetry, type RetryPolicy } from "./retry-helper.js";
+
+vi.mock("./http-helper.js", () => ({ requestWithTokenRefresh: vi.fn() }));
+vi.mock("./rate-limiter.js", () => ({ acquireCallPermit: vi.fn() }));
+
+const requestMock = vi.mocked(requestWithTokenRefresh);
+const policy: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 5, budgetMs: 1000, retryNonIdempotent: false };
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+  return new AxiosError(`Request failed with status code ${status}`, "ERR_BAD_RESPONSE", undefined, undefined,
+    { status, headers, data: {} } as AxiosResponse);
+}
+
+describe("retry", () => {
+  it("retries throttled idempotent calls and counts the attempts", async () => {
+    requestMock.mockReset()
+      .mockRejectedValueOnce(httpError(429, { "retry-after": "0" }))
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce({ status: 200, data: "ok" } as AxiosResponse);
+    const stats = { attempts: 0, retries: 0 };
+
+    const resp = await requestWithRetry({ method: "get", url: "https://api.ebay.com" }, {}, stats, policy);
+
+    expect(resp.data).toBe("ok");
+    expect(stats).toEqual({ attempts: 3, retries: 2 });
+  });
+
+  it("does not retry non-idempotent methods or client errors", async () => {
+    requestMock.mockReset().mockRejectedValue(httpError(503));
+    const stats = { attempts: 0, retries: 0 };
+    await expect(requestWithRetry({ method: "post", url: "https://api.ebay.com" }, {}, stats, policy)).rejects.toThrow("503");
+    expect(stats.attempts).toBe(1);
+
+    requestMock.mockReset().mockRejectedValue(httpError(400));
+    await expect(requestWithRetry({ method: "get", url: "https://api.ebay.com" }, {}, stats, policy)).rejects.toThrow("400");
+    expect(stats.attempts).toBe(2);
+  });
+
+  it("honors Retry-After and caps the backoff", () => {
+    expect(getRetryDelay(httpError(429, { "retry-after": "2" }), 1, policy)).toBe(2000);
+    expect(getRetryDelay(httpError(503), 10, policy)).toBeLessThanOrEqual(5);
+  });
+});
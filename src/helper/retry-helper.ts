@@ -0,0 +1,154 @@
+/**
+ * Retry helper functions, retrying eBay API calls that were throttled or failed transiently
+ * with exponential backoff and jitter, honoring Retry-After.
+ */
+import axios, { type AxiosRequestConfig, type AxiosResponse } from "axios";
+import {
+  DEFAULT_RETRY_BASE_DELAY_MS, DEFAULT_RETRY_BUDGET_MS, DEFAULT_RETRY_MAX_ATTEMPTS, DEFAULT_RETRY_MAX_DELAY_MS,
+} from "../constant/constants.js";
+import { recordAuditEntry } from "./audit-log.js";
+import { type EbayCredentials } from "./auth-helper.js";
+import { requestWithTokenRefresh } from "./http-helper.js";
+import { acquireCallPermit } from "./rate-limiter.js";
+
+const RETRYABLE_STATUS_CODES = [429, 500, 502, 503, 504];
+const RETRYABLE_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "ECONNABORTED", "EAI_AGAIN", "EPIPE"];
+const IDEMPOTENT_METHODS = ["get", "head", "options", "put", "delete", "trace"];
+
+/**
+ * Retry policy, read from environment variables
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // no retry is started once this much time has passed since the first attempt
+  budgetMs: number;
+  retryNonIdempotent: boolean;
+}
+
+/**
+ * Attempts made by the calls of a tool invocation, reported in the tool result
+ */
+export interface RetryStats {
+  attempts: number;
+  retries: number;
+}
+
+/**
+ * Read the retry policy from environment variables
+ */
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    maxAttempts: readPositiveInteger(process.env.EBAY_RETRY_MAX_ATTEMPTS, DEFAULT_RETRY_MAX_ATTEMPTS),
+    baseDelayMs: readPositiveInteger(process.env.EBAY_RETRY_BASE_DELAY_MS, DEFAULT_RETRY_BASE_DELAY_MS),
+    maxDelayMs: readPositiveInteger(process.env.EBAY_RETRY_MAX_DELAY_MS, DEFAULT_RETRY_MAX_DELAY_MS),
+    budgetMs: readPositiveInteger(process.env.EBAY_RETRY_BUDGET_MS, DEFAULT_RETRY_BUDGET_MS),
+    retryNonIdempotent: process.env.EBAY_RETRY_NON_IDEMPOTENT === "true",
+  };
+}
+
+/**
+ * Send the request with token refresh, retrying throttled and transient failures within the policy's attempt and time budget.
+ * Every attempt waits for a permit of the rate limiter. Attempts are counted in stats, so callers can report them.
+ * The call is recorded in the audit log once it succeeded or finally failed.
+ */
+export async function requestWithRetry<T = unknown>(
+  config: AxiosRequestConfig,
+  credentials: EbayCredentials,
+  stats: RetryStats = { attempts: 0, retries: 0 },
+  policy: RetryPolicy = getRetryPolicy(),
+): Promise<AxiosResponse<T>> {
+  const startedAt = Date.now();
+  const attemptsBefore = stats.attempts;
+  try {
+    const response = await sendWithRetries<T>(config, credentials, stats, policy, startedAt);
+    recordAuditEntry(config, { startedAt, attempts: stats.attempts - attemptsBefore, sessionId: credentials.sessionId, response });
+    return response;
+  } catch (error) {
+    recordAuditEntry(config, { startedAt, attempts: stats.attempts - attemptsBefore, sessionId: credentials.sessionId, error });
+    throw error;
+  }
+}
+
+async function sendWithRetries<T>(
+  config: AxiosRequestConfig,
+  credentials: EbayCredentials,
+  stats: RetryStats,
+  policy: RetryPolicy,
+  startedAt: number,
+): Promise<AxiosResponse<T>> {
+  const method = (config.method || "get").toLowerCase();
+  const canRetry = policy.retryNonIdempotent || IDEMPOTENT_METHODS.includes(method);
+  for (let attempt = 1; ; attempt++) {
+    await acquireCallPermit(config.url);
+    stats.attempts++;
+    try {
+      return await requestWithTokenRefresh<T>(config, credentials);
+    } catch (error) {
+      if (!canRetry || attempt >= policy.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+      const delayMs = getRetryDelay(error, attempt, policy);
+      if (Date.now() - startedAt + delayMs > policy.budgetMs) {
+        throw error;
+      }
+      console.error(`eBay API call failed (${describeError(error)}), retrying in ${delayMs}ms (attempt ${attempt + 1} of ${policy.maxAttempts})`);
+      stats.retries++;
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Whether the error is throttling or a transient failure worth retrying
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  if (error.response) {
+    return RETRYABLE_STATUS_CODES.includes(error.response.status);
+  }
+  return RETRYABLE_ERROR_CODES.includes(error.code || "");
+}
+
+/**
+ * Delay before the next attempt: the Retry-After header when eBay sends one,
+ * else exponential backoff with full jitter
+ */
+export function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy): number {
+  const retryAfter = axios.isAxiosError(error) ? parseRetryAfter(error.response?.headers?.["retry-after"]) : undefined;
+  if (retryAfter !== undefined) {
+    return retryAfter;
+  }
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * backoff);
+}
+
+/**
+ * Parse Retry-After, given in seconds or as an HTTP date, into milliseconds
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== "string" || value.trim() === "") {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function describeError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    return error.response ? `status ${error.response.status}` : error.code || error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+function readPositiveInteger(value: string | undefined, defaultValue: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : defaultValue;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { type OpenAPIV3 } from "openapi-types";
+import { registerSpec } from "./spec-registry.js";
+import { hasSearchableOperations, searchOperations, tokenize } from "./search-index.js";
+
+const browseSpec: OpenAPIV3.Document = {
+  openapi: "3.0.0",
+  info: { title: "Browse API", version: "v1" },
+  paths: {
+    "/item_summary/search": {
+      get: {
+        operationId: "search",
+        summary: "Search items by keyword, category or GTIN",
+        tags: ["item_summary"],
+        parameters: [{ name: "q", in: "query" }, { name: "category_ids", in: "query" }],
+        responses: {},
+      },
+    },
+    "/item/{item_id}": {
+      get: {
+        operationId: "getItem",
+        summary: "Retrieve the details of a specific item",
+        tags: ["item"],
+        responses: {},
+      },
+    },
+  },
+};
+
+const fulfillmentSpec: OpenAPIV3.Document = {
+  openapi: "3.0.0",
+  info: { title: "Fulfillment API", version: "v1" },
+  paths: {
+    "/order": {
+      get: {
+        operationId: "getOrders",
+        summary: "Retrieve the contents of multiple orders",
+        tags: ["order"],
+        parameters: [{ name: "filter", in: "query" }],
+        responses: {},
+      },
+    },
+  },
+};
+
+describe("search index", () => {
+  it("tokenizes camelCase, paths and plurals", () => {
+    expect(tokenize("getOrders /item_summary/search")).toEqual(["get", "order", "item", "summary", "search"]);
+  });
+
+  it("ranks operations by keyword relevance", () => {
+    registerSpec(browseSpec, "config");
+    registerSpec(fulfillmentSpec, "config");
+
+    expect(hasSearchableOperations()).toBe(true);
+
+    const [first] = searchOperations("search items by keyword");
+    expect(first).toMatchObject({ specTitle: "Browse API", operationId: "search", method: "GET", path: "/item_summary/search" });
+
+    expect(searchOperations("I wanna list my orders")[0].operationId).toBe("getOrders");
+    expect(searchOperations("shipping label")).toEqual([]);
+  });
+
+  it("rebuilds when fetched specs are registered", () => {
+    registerSpec({
+      openapi: "3.0.0",
+      info: { title: "Taxonomy API", version: "v1" },
+      paths: { "/category_tree/{category_tree_id}": { get: { operationId: "getCategoryTree", responses: {} } } },
+    }, "fetched");
+
+    expect(searchOperations("category tree")[0].operationId).toBe("getCategoryTree");
+  });
+});
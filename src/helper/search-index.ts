@@ -0,0 +1,162 @@
+/**
+ * Local keyword search over the operations of the registered OpenAPI documents,
+ * used by query_ebay_api when the remote spec search is not available.
+ */
+import { type OpenAPIV3 } from "openapi-types";
+import { getRegisteredSpecs, getSpecRegistryVersion } from "./spec-registry.js";
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+const STOP_WORDS = new Set(["a", "an", "and", "the", "for", "of", "to", "in", "on", "by", "with", "i", "me", "my", "is", "are", "want", "wanna", "api", "apis"]);
+
+// how much a term matched in each field counts towards the score
+const FIELD_WEIGHTS = {
+  operationId: 3,
+  summary: 3,
+  path: 2,
+  tags: 2,
+  parameters: 1.5,
+  description: 1,
+};
+// a query term that is only a prefix of an indexed term counts this much of a full match
+const PREFIX_MATCH_WEIGHT = 0.5;
+
+type IndexedField = keyof typeof FIELD_WEIGHTS;
+
+/**
+ * Operation found by the local search
+ */
+export interface SearchMatch {
+  specTitle: string;
+  operationId: string;
+  method: string;
+  path: string;
+  summary?: string;
+  score: number;
+}
+
+interface IndexedOperation {
+  specTitle: string;
+  operationId: string;
+  method: string;
+  path: string;
+  summary?: string;
+  terms: Record<IndexedField, string[]>;
+}
+
+let indexedOperations: IndexedOperation[] = [];
+// number of operations each term appears in, for inverse document frequency
+let documentFrequency = new Map<string, number>();
+let indexedVersion = -1;
+
+/**
+ * Whether the registered specs contain any operation to search
+ */
+export function hasSearchableOperations(): boolean {
+  ensureIndex();
+  return indexedOperations.length > 0;
+}
+
+/**
+ * Search operations by keywords, best matches first
+ */
+export function searchOperations(query: string, limit = 10): SearchMatch[] {
+  ensureIndex();
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0) {
+    return [];
+  }
+  return indexedOperations
+    .map(operation => ({ operation, score: scoreOperation(operation, queryTerms) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ operation, score }) => ({
+      specTitle: operation.specTitle,
+      operationId: operation.operationId,
+      method: operation.method.toUpperCase(),
+      path: operation.path,
+      summary: operation.summary,
+      score: Math.round(score * 100) / 100,
+    }));
+}
+
+/**
+ * Split text into lowercase search terms: camelCase, snake_case and paths are broken into words,
+ * stop words are dropped and plural "s" is stripped
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 0 && !STOP_WORDS.has(term))
+    .map(term => (term.length > 3 && term.endsWith("s") && !term.endsWith("ss") ? term.slice(0, -1) : term));
+}
+
+function scoreOperation(operation: IndexedOperation, queryTerms: string[]): number {
+  let score = 0;
+  for (const queryTerm of queryTerms) {
+    const idf = Math.log(1 + indexedOperations.length / (documentFrequency.get(queryTerm) || 1));
+    for (const field of Object.keys(FIELD_WEIGHTS) as IndexedField[]) {
+      const terms = operation.terms[field];
+      const exactMatches = terms.filter(term => term === queryTerm).length;
+      const prefixMatches = queryTerm.length >= 3
+        ? terms.filter(term => term !== queryTerm && term.startsWith(queryTerm)).length
+        : 0;
+      const matches = exactMatches + prefixMatches * PREFIX_MATCH_WEIGHT;
+      if (matches > 0) {
+        // dampen repeated terms so long descriptions don't dominate
+        score += FIELD_WEIGHTS[field] * idf * (1 + Math.log(matches));
+      }
+    }
+  }
+  return score;
+}
+
+/**
+ * Rebuild the index when the registry has changed since the last build
+ */
+function ensureIndex(): void {
+  const version = getSpecRegistryVersion();
+  if (version === indexedVersion) {
+    return;
+  }
+  indexedOperations = getRegisteredSpecs().flatMap(spec => indexDocument(spec.title, spec.doc));
+  documentFrequency = new Map();
+  for (const operation of indexedOperations) {
+    for (const term of new Set(Object.values(operation.terms).flat())) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+  indexedVersion = version;
+}
+
+function indexDocument(specTitle: string, doc: OpenAPIV3.Document): IndexedOperation[] {
+  const operations: IndexedOperation[] = [];
+  for (const [path, pathItem] of Object.entries(doc.paths || {})) {
+    if (!pathItem) {continue;}
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method as keyof typeof pathItem] as OpenAPIV3.OperationObject | undefined;
+      if (!operation?.operationId) {continue;}
+      const parameterNames = [...(pathItem.parameters || []), ...(operation.parameters || [])]
+        .filter((param): param is OpenAPIV3.ParameterObject => !("$ref" in param))
+        .map(param => param.name);
+      operations.push({
+        specTitle,
+        operationId: operation.operationId,
+        method,
+        path,
+        summary: operation.summary,
+        terms: {
+          operationId: tokenize(operation.operationId),
+          summary: tokenize(operation.summary || ""),
+          path: tokenize(path),
+          tags: tokenize([specTitle, ...(operation.tags || [])].join(" ")),
+          parameters: tokenize(parameterNames.join(" ")),
+          description: tokenize(operation.description || ""),
+        },
+      });
+    }
+  }
+  return operations;
+}
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { type OpenAPIV3 } from "openapi-types";
+import { requestWithRetry } from "./retry-helper.js";
+import { queryAndParseOpenApiDoc } from "./openapi-helper.js";
+import { buildSpecCacheKey, clearSpecCache, getCachedSpec, setCachedSpec } from "./spec-cache.js";
+
+vi.mock("./retry-helper.js", () => ({ requestWithRetry: vi.fn() }));
+vi.mock("./http-helper.js", () => ({ buildHeadersFromInput: vi.fn(async () => ({})) }));
+
+const requestMock = vi.mocked(requestWithRetry);
+const SPEC_URL = "https://api.ebay.com/developer/mcp/v1/search/%s?operationId=%s";
+
+function buildSpec(title: string): OpenAPIV3.Document {
+  return { openapi: "3.0.0", info: { title, version: "v1" }, paths: {} };
+}
+
+describe("spec cache", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ebay-spec-cache-"));
+  });
+
+  afterEach(() => {
+    clearSpecCache();
+    requestMock.mockReset();
+    delete process.env.EBAY_SPEC_CACHE_DIR;
+    delete process.env.EBAY_SPEC_CACHE_MAX_ENTRIES;
+    delete process.env.EBAY_SPEC_CACHE_TTL_SECONDS;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("serves a fresh entry without calling the spec search endpoint", async () => {
+    setCachedSpec(buildSpecCacheKey("Fresh API", "getItem"), { doc: buildSpec("Fresh API"), fetchedAt: Date.now() });
+
+    const doc = await queryAndParseOpenApiDoc("Fresh API", "getItem", SPEC_URL, {});
+
+    expect(doc.info.title).toBe("Fresh API");
+    expect(requestMock).not.toHaveBeenCalled();
+  });
+
+  it("revalidates an expired entry with its validators and keeps it on 304", async () => {
+    const key = buildSpecCacheKey("Stale API", "getItem");
+    const cached = { doc: buildSpec("Stale API"), fetchedAt: Date.now() - 2 * 3600 * 1000, etag: "\"v1\"", lastModified: "Mon, 05 Oct 2026 10:00:00 GMT" };
+    setCachedSpec(key, cached);
+    requestMock.mockResolvedValue({ status: 304, data: "", headers: {}, statusText: "Not Modified", config: {} as never });
+
+    const doc = await queryAndParseOpenApiDoc("Stale API", "getItem", SPEC_URL, {});
+
+    expect(doc).toBe(cached.doc);
+    expect(requestMock.mock.calls[0][0].headers).toMatchObject({ "If-None-Match": "\"v1\"", "If-Modified-Since": cached.lastModified });
+    expect(getCachedSpec(key)!.fetchedAt).toBeGreaterThan(cached.fetchedAt);
+  });
+
+  it("evicts the least recently used entry beyond the maximum", () => {
+    process.env.EBAY_SPEC_CACHE_MAX_ENTRIES = "2";
+    setCachedSpec("a", { doc: buildSpec("A"), fetchedAt: Date.now() });
+    setCachedSpec("b", { doc: buildSpec("B"), fetchedAt: Date.now() });
+    getCachedSpec("a");
+    setCachedSpec("c", { doc: buildSpec("C"), fetchedAt: Date.now() });
+
+    expect(getCachedSpec("b")).toBeUndefined();
+    expect(getCachedSpec("a")?.doc.info.title).toBe("A");
+    expect(getCachedSpec("c")?.doc.info.title).toBe("C");
+  });
+
+  it("reads entries back from disk and clears only its own files", () => {
+    process.env.EBAY_SPEC_CACHE_DIR = dir;
+    fs.writeFileSync(path.join(dir, "notes.json"), "{}");
+    setCachedSpec("a", { doc: buildSpec("A"), fetchedAt: 1, etag: "\"a\"" });
+    setCachedSpec("b", { doc: buildSpec("B"), fetchedAt: 1 });
+    // a restart empties the memory cache, the disk keeps the entries
+    process.env.EBAY_SPEC_CACHE_DIR = "";
+    clearSpecCache();
+    process.env.EBAY_SPEC_CACHE_DIR = dir;
+
+    expect(getCachedSpec("a")).toEqual({ doc: buildSpec("A"), fetchedAt: 1, etag: "\"a\"" });
+    expect(clearSpecCache()).toBe(2);
+    expect(fs.readdirSync(dir)).toEqual(["notes.json"]);
+  });
+});
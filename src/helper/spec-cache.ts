@@ -0,0 +1,137 @@
+/**
+ * Cache for OpenAPI specs fetched by specTitle and operationId: an in-memory LRU,
+ * optionally backed by a directory on disk so it survives restarts.
+ */
+import { type OpenAPIV3 } from "openapi-types";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+const DEFAULT_TTL_SECONDS = 3600;
+const DEFAULT_MAX_ENTRIES = 100;
+// files are named after the sha256 of their cache key
+const CACHE_FILE_PATTERN = /^[0-9a-f]{64}\.json$/;
+
+/**
+ * Cached spec with the validators needed to revalidate it
+ */
+export interface CachedSpec {
+  doc: OpenAPIV3.Document;
+  fetchedAt: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+// Map keeps insertion order, the first key is the least recently used
+const memoryCache = new Map<string, CachedSpec>();
+
+/**
+ * Build the cache key for a spec lookup
+ */
+export function buildSpecCacheKey(specTitle: string, operationId: string): string {
+  return `${specTitle}::${operationId}`;
+}
+
+/**
+ * Get a cached spec from memory or disk, stale entries are returned too, check them with isSpecFresh
+ */
+export function getCachedSpec(key: string): CachedSpec | undefined {
+  let entry = memoryCache.get(key);
+  if (entry) {
+    // move to the most recently used position
+    memoryCache.delete(key);
+    memoryCache.set(key, entry);
+    return entry;
+  }
+  entry = readSpecFromDisk(key);
+  if (entry) {
+    setMemoryEntry(key, entry);
+  }
+  return entry;
+}
+
+/**
+ * Store a spec in memory and, when configured, on disk
+ */
+export function setCachedSpec(key: string, entry: CachedSpec): void {
+  setMemoryEntry(key, entry);
+  writeSpecToDisk(key, entry);
+}
+
+/**
+ * Whether the entry is younger than EBAY_SPEC_CACHE_TTL_SECONDS
+ */
+export function isSpecFresh(entry: CachedSpec): boolean {
+  const ttlSeconds = readPositiveNumber(process.env.EBAY_SPEC_CACHE_TTL_SECONDS, DEFAULT_TTL_SECONDS);
+  return Date.now() - entry.fetchedAt < ttlSeconds * 1000;
+}
+
+/**
+ * Clear both the memory and the disk cache, returns the number of specs removed.
+ * Only the files the cache wrote are deleted, other files in EBAY_SPEC_CACHE_DIR are left alone.
+ */
+export function clearSpecCache(): number {
+  const removedFiles = new Set([...memoryCache.keys()].map(key => getDiskPath(key)).filter(Boolean));
+  let count = memoryCache.size;
+  memoryCache.clear();
+  const cacheDir = process.env.EBAY_SPEC_CACHE_DIR;
+  if (cacheDir && fs.existsSync(cacheDir)) {
+    for (const file of fs.readdirSync(cacheDir).filter(name => CACHE_FILE_PATTERN.test(name))) {
+      const filePath = path.join(cacheDir, file);
+      fs.rmSync(filePath, { force: true });
+      // specs cached in memory were counted already
+      if (!removedFiles.has(filePath)) {
+        count++;
+      }
+    }
+  }
+  return count;
+}
+
+function setMemoryEntry(key: string, entry: CachedSpec): void {
+  memoryCache.delete(key);
+  memoryCache.set(key, entry);
+  const maxEntries = readPositiveNumber(process.env.EBAY_SPEC_CACHE_MAX_ENTRIES, DEFAULT_MAX_ENTRIES);
+  while (memoryCache.size > maxEntries) {
+    memoryCache.delete(memoryCache.keys().next().value!);
+  }
+}
+
+function readSpecFromDisk(key: string): CachedSpec | undefined {
+  const filePath = getDiskPath(key);
+  if (!filePath || !fs.existsSync(filePath)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as CachedSpec;
+  } catch (_error) {
+    console.error(`Ignoring unreadable spec cache file ${filePath}`);
+    return undefined;
+  }
+}
+
+function writeSpecToDisk(key: string, entry: CachedSpec): void {
+  const filePath = getDiskPath(key);
+  if (!filePath) {
+    return;
+  }
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(entry), "utf-8");
+  } catch (error) {
+    console.error(`Failed to write spec cache file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function getDiskPath(key: string): string | undefined {
+  const cacheDir = process.env.EBAY_SPEC_CACHE_DIR;
+  if (!cacheDir) {
+    return undefined;
+  }
+  return path.join(cacheDir, `${crypto.createHash("sha256").update(key).digest("hex")}.json`);
+}
+
+function readPositiveNumber(value: string | undefined, defaultValue: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : defaultValue;
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { type OpenAPIV3 } from "openapi-types";
+import { getRegisteredSpec, getRegisteredSpecs, onSpecRegistryChange, registerSpec, replaceConfigSpecs } from "./spec-registry.js";
+
+function buildSpec(title: string, operationIds: string[]): OpenAPIV3.Document {
+  return {
+    openapi: "3.0.0",
+    info: { title, version: "v1" },
+    paths: Object.fromEntries(operationIds.map(operationId => [`/${operationId}`, { get: { operationId, responses: {} } }])),
+  };
+}
+
+describe("replaceConfigSpecs", () => {
+  it("adds, updates and removes config specs, keeping unchanged documents and fetched specs", () => {
+    const browse = buildSpec("Browse API", ["search"]);
+    const order = buildSpec("Fulfillment API", ["getOrders"]);
+    replaceConfigSpecs([browse, order]);
+    registerSpec(buildSpec("Taxonomy API", ["getCategoryTree"]), "fetched");
+    let changes = 0;
+    const removeListener = onSpecRegistryChange(() => changes++);
+
+    const updatedOrder = buildSpec("Fulfillment API", ["getOrders", "getOrder"]);
+    const inventory = buildSpec("Inventory API", ["getInventoryItem"]);
+    replaceConfigSpecs([buildSpec("Browse API", ["search"]), updatedOrder, inventory]);
+    removeListener();
+
+    expect(changes).toBe(1);
+    expect(getRegisteredSpec("Browse API")?.doc).toBe(browse);
+    expect(getRegisteredSpec("Fulfillment API")?.doc).toBe(updatedOrder);
+    expect(getRegisteredSpec("Inventory API")?.doc).toBe(inventory);
+
+    replaceConfigSpecs([inventory]);
+    expect(getRegisteredSpecs().map(spec => spec.title).sort()).toEqual(["Inventory API", "Taxonomy API"]);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Registry of the OpenAPI documents known to the server, loaded from the user config file
+ * or fetched from the spec search endpoint, keyed by spec title.
+ */
+import { type OpenAPIV3 } from "openapi-types";
+
+/**
+ * Where a registered spec comes from
+ */
+export type SpecSource = "config" | "fetched";
+
+/**
+ * OpenAPI document registered under its title
+ */
+export interface RegisteredSpec {
+  title: string;
+  doc: OpenAPIV3.Document;
+  source: SpecSource;
+}
+
+const specs = new Map<string, RegisteredSpec>();
+// bumped on every change, so derived data (like the search index) knows when to rebuild
+let registryVersion = 0;
+const changeListeners = new Set<() => void>();
+
+/**
+ * Register an OpenAPI document. Specs from the config file replace any previous entry,
+ * fetched specs usually hold a single operation so their paths are merged into the existing entry.
+ */
+export function registerSpec(doc: OpenAPIV3.Document, source: SpecSource, fallbackTitle?: string): void {
+  const title = doc.info?.title || fallbackTitle;
+  if (!title || !doc.paths) {
+    return;
+  }
+  const existing = specs.get(title);
+  if (source === "fetched" && existing) {
+    if (existing.source === "config" || containsOperations(existing.doc.paths, doc.paths)) {
+      return;
+    }
+    specs.set(title, { ...existing, doc: { ...existing.doc, paths: mergePaths(existing.doc.paths, doc.paths) } });
+  } else {
+    specs.set(title, { title, doc, source });
+  }
+  registryVersion++;
+  changeListeners.forEach(listener => listener());
+}
+
+/**
+ * Replace the specs loaded from the config file with the given documents, in one change.
+ * Specs whose content did not change keep their registered document, so listeners can tell them from updated ones.
+ */
+export function replaceConfigSpecs(docs: OpenAPIV3.Document[]): void {
+  const titles = new Set<string>();
+  for (const doc of docs) {
+    const title = doc.info?.title;
+    if (!title || !doc.paths) {
+      continue;
+    }
+    titles.add(title);
+    const existing = specs.get(title);
+    if (existing?.source !== "config" || stringifyWithoutCycles(existing.doc) !== stringifyWithoutCycles(doc)) {
+      specs.set(title, { title, doc, source: "config" });
+    }
+  }
+  for (const spec of [...specs.values()]) {
+    if (spec.source === "config" && !titles.has(spec.title)) {
+      specs.delete(spec.title);
+    }
+  }
+  registryVersion++;
+  changeListeners.forEach(listener => listener());
+}
+
+/**
+ * Get all registered specs
+ */
+export function getRegisteredSpecs(): RegisteredSpec[] {
+  return [...specs.values()];
+}
+
+/**
+ * Get a registered spec by title
+ */
+export function getRegisteredSpec(title: string): RegisteredSpec | undefined {
+  return specs.get(title);
+}
+
+/**
+ * Current registry version, changes whenever specs are registered or replaced
+ */
+export function getSpecRegistryVersion(): number {
+  return registryVersion;
+}
+
+/**
+ * Listen for registry changes, returns a function removing the listener
+ */
+export function onSpecRegistryChange(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => changeListeners.delete(listener);
+}
+
+function containsOperations(target: OpenAPIV3.PathsObject, source: OpenAPIV3.PathsObject): boolean {
+  return Object.entries(source).every(([path, pathItem]) =>
+    Object.entries(pathItem || {}).every(([key, value]) => target[path]?.[key as keyof OpenAPIV3.PathItemObject] === value));
+}
+
+function mergePaths(target: OpenAPIV3.PathsObject, source: OpenAPIV3.PathsObject): OpenAPIV3.PathsObject {
+  const merged: OpenAPIV3.PathsObject = { ...target };
+  for (const [path, pathItem] of Object.entries(source)) {
+    merged[path] = { ...merged[path], ...pathItem };
+  }
+  return merged;
+}
+
+/**
+ * JSON.stringify for dereferenced specs, recursive schemas are cut where they repeat an ancestor
+ */
+export function stringifyWithoutCycles(value: unknown, space?: number): string {
+  const ancestors: object[] = [];
+  return JSON.stringify(value, function (this: unknown, _key, current: unknown) {
+    if (!current || typeof current !== "object") {
+      return current;
+    }
+    // `this` is the object holding current, ancestors deeper than it are finished
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+      ancestors.pop();
+    }
+    if (ancestors.includes(current)) {
+      return { description: "Recursive schema, see the enclosing definition" };
+    }
+    ancestors.push(current);
+    return current;
+  }, space);
+}
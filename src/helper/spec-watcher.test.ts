@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { listWatchedFiles, watchSpecSources } from "./spec-watcher.js";
+
+describe("spec watcher", () => {
+  let dir: string;
+  let urlFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ebay-specs-"));
+    urlFile = path.join(dir, "specs.txt");
+    fs.mkdirSync(path.join(dir, "local"));
+    fs.writeFileSync(path.join(dir, "local", "browse.json"), "{}");
+    fs.writeFileSync(urlFile, `# specs\n${path.join(dir, "local", "browse.json")}\nhttps://example.com/spec.json\n`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("lists the url file and the local specs it references", () => {
+    expect(listWatchedFiles(urlFile)).toEqual([urlFile, path.join(dir, "local", "browse.json")]);
+  });
+
+  it("reloads once for a burst of changes to watched files, ignoring other files", async () => {
+    let reloads = 0;
+    const stop = watchSpecSources(urlFile, async () => {
+      reloads++;
+    }, 50);
+    try {
+      fs.writeFileSync(path.join(dir, "local", "notes.txt"), "unrelated");
+      await new Promise(resolve => setTimeout(resolve, 150));
+      expect(reloads).toBe(0);
+
+      fs.writeFileSync(path.join(dir, "local", "browse.json"), "{\"openapi\":\"3.0.0\"}");
+      fs.appendFileSync(urlFile, "\n");
+      await new Promise(resolve => setTimeout(resolve, 300));
+      expect(reloads).toBe(1);
+    } finally {
+      stop();
+    }
+  });
+});
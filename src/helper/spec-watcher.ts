@@ -0,0 +1,84 @@
+/**
+ * Watch the user config file listing the OpenAPI specs, and the local spec files it lists,
+ * so the specs can be reloaded without restarting the server.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import { SPEC_WATCH_DEBOUNCE_MS } from "../constant/constants.js";
+import { readSpecLocations } from "./openapi-helper.js";
+
+/**
+ * Call onChange once the url file or one of the local spec files it lists has changed, changes within the debounce
+ * delay are batched. Directories are watched rather than files, so files replaced on save (as editors do) are noticed.
+ * The watched files are listed again after every reload. Returns a function stopping the watch.
+ */
+export function watchSpecSources(
+  urlFile: string,
+  onChange: () => Promise<void>,
+  debounceMs: number = SPEC_WATCH_DEBOUNCE_MS,
+): () => void {
+  let watchers: fs.FSWatcher[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let reloading = Promise.resolve();
+  let stopped = false;
+
+  const scheduleReload = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      reloading = reloading
+        .then(onChange)
+        .catch(error => console.error(`Failed to reload OpenAPI specs: ${error instanceof Error ? error.message : String(error)}`))
+        .then(watchFiles);
+    }, debounceMs);
+    timer.unref();
+  };
+
+  const watchFiles = () => {
+    watchers.forEach(watcher => watcher.close());
+    watchers = [];
+    if (stopped) {
+      return;
+    }
+    for (const [dir, fileNames] of groupByDirectory(listWatchedFiles(urlFile))) {
+      try {
+        const watcher = fs.watch(dir, (_event, fileName) => {
+          // the file name is not reported on every platform, any change in the directory counts then
+          if (!fileName || fileNames.has(fileName.toString())) {
+            scheduleReload();
+          }
+        });
+        watcher.on("error", error => console.error(`Stopped watching ${dir} for spec changes: ${error.message}`));
+        // watching must not keep the process alive
+        watcher.unref();
+        watchers.push(watcher);
+      } catch (error) {
+        console.error(`Cannot watch ${dir} for spec changes: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  };
+
+  watchFiles();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    watchers.forEach(watcher => watcher.close());
+    watchers = [];
+  };
+}
+
+/**
+ * The url file and the local spec files it lists, remote specs can't be watched
+ */
+export function listWatchedFiles(urlFile: string): string[] {
+  const localSpecs = (readSpecLocations(urlFile) || []).filter(location => !/^https?:\/\//i.test(location));
+  return [...new Set([urlFile, ...localSpecs].map(file => path.resolve(file)))];
+}
+
+function groupByDirectory(files: string[]): Map<string, Set<string>> {
+  const directories = new Map<string, Set<string>>();
+  for (const file of files) {
+    const dir = path.dirname(file);
+    directories.set(dir, (directories.get(dir) || new Set()).add(path.basename(file)));
+  }
+  return directories;
+}
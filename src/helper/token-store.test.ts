@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { clearUserToken, loadUserToken, saveUserToken, type StoredUserToken } from "./token-store.js";
+
+const token: StoredUserToken = {
+  refreshToken: "refresh-token",
+  refreshTokenExpiresAt: 1700000000000,
+  scopes: ["https://api.ebay.com/oauth/api_scope/sell.inventory"],
+  accessToken: "access-token",
+  accessTokenExpiresAt: 1600000000000,
+};
+
+describe("token store", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ebay-token-store-"));
+    process.env.EBAY_TOKEN_STORE_PATH = path.join(dir, "user-token.enc");
+  });
+
+  afterEach(() => {
+    delete process.env.EBAY_TOKEN_STORE_PATH;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("round-trips the token through the encrypted file", () => {
+    saveUserToken(token, "store-key");
+
+    expect(fs.readFileSync(process.env.EBAY_TOKEN_STORE_PATH!, "utf-8")).not.toContain("refresh-token");
+    expect(loadUserToken("store-key")).toEqual(token);
+    clearUserToken();
+    expect(loadUserToken("store-key")).toBeUndefined();
+  });
+
+  it("returns nothing for a wrong key or a tampered file", () => {
+    saveUserToken(token, "store-key");
+    expect(loadUserToken("other-key")).toBeUndefined();
+
+    const storePath = process.env.EBAY_TOKEN_STORE_PATH!;
+    const file = JSON.parse(fs.readFileSync(storePath, "utf-8")) as { data: string };
+    const data = Buffer.from(file.data, "base64");
+    data[0] ^= 1;
+    fs.writeFileSync(storePath, JSON.stringify({ ...file, data: data.toString("base64") }));
+    expect(loadUserToken("store-key")).toBeUndefined();
+
+    fs.writeFileSync(storePath, "not json");
+    expect(loadUserToken("store-key")).toBeUndefined();
+  });
+});
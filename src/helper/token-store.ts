@@ -0,0 +1,92 @@
+/**
+ * Encrypted local store for eBay user tokens, so the refresh token survives server restarts.
+ */
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+const CIPHER_ALGORITHM = "aes-256-gcm";
+const STORE_VERSION = 1;
+
+/**
+ * User token data persisted in the store
+ */
+export interface StoredUserToken {
+  refreshToken: string;
+  refreshTokenExpiresAt: number;
+  scopes: string[];
+  accessToken?: string;
+  accessTokenExpiresAt?: number;
+}
+
+interface EncryptedTokenFile {
+  version: number;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Location of the token store, EBAY_TOKEN_STORE_PATH or ~/.ebay-mcp/user-token.enc
+ */
+export function getTokenStorePath(): string {
+  return process.env.EBAY_TOKEN_STORE_PATH || path.join(os.homedir(), ".ebay-mcp", "user-token.enc");
+}
+
+/**
+ * Encrypt and save the user token, the file is only readable by the current user
+ */
+export function saveUserToken(token: StoredUserToken, secret: string): void {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(CIPHER_ALGORITHM, deriveKey(secret, salt), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(token), "utf-8"), cipher.final()]);
+  const file: EncryptedTokenFile = {
+    version: STORE_VERSION,
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+  const storePath = getTokenStorePath();
+  fs.mkdirSync(path.dirname(storePath), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(storePath, JSON.stringify(file), { encoding: "utf-8", mode: 0o600 });
+}
+
+/**
+ * Load and decrypt the user token, returns undefined if there is no readable store
+ */
+export function loadUserToken(secret: string): StoredUserToken | undefined {
+  const storePath = getTokenStorePath();
+  if (!fs.existsSync(storePath)) {
+    return undefined;
+  }
+  try {
+    const file = JSON.parse(fs.readFileSync(storePath, "utf-8")) as EncryptedTokenFile;
+    if (file.version !== STORE_VERSION) {
+      console.error(`Ignoring token store ${storePath} with unsupported version ${file.version}`);
+      return undefined;
+    }
+    const decipher = crypto.createDecipheriv(CIPHER_ALGORITHM, deriveKey(secret, Buffer.from(file.salt, "base64")),
+      Buffer.from(file.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+    const data = Buffer.concat([decipher.update(Buffer.from(file.data, "base64")), decipher.final()]);
+    return JSON.parse(data.toString("utf-8")) as StoredUserToken;
+  } catch (_error) {
+    console.error(`Failed to decrypt token store ${storePath}, the store key may have changed`);
+    return undefined;
+  }
+}
+
+/**
+ * Remove the persisted user token
+ */
+export function clearUserToken(): void {
+  fs.rmSync(getTokenStorePath(), { force: true });
+}
+
+function deriveKey(secret: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(secret, salt, 32);
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { type OpenAPIV3 } from "openapi-types";
+import { findMissingScopes, validateResponse, validateUrlHeaders } from "./validation-helper.js";
+
+const getOrder: OpenAPIV3.OperationObject = {
+  operationId: "getOrder",
+  responses: {
+    "200": {
+      description: "OK",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              orderId: { type: "string" },
+              pricingSummary: { type: "object", properties: { total: { type: "object", properties: { value: { type: "string" } } } } },
+            },
+          },
+        },
+      },
+    },
+    "204": { description: "No Content" },
+  },
+};
+
+describe("validateResponse", () => {
+  it("accepts responses matching the spec", () => {
+    expect(validateResponse(getOrder, { status: 200, contentType: "application/json;charset=UTF-8", body: { orderId: "1", extra: true } })).toEqual([]);
+    expect(validateResponse(getOrder, { status: 204, body: "" })).toEqual([]);
+  });
+
+  it("reports status, content type and body drift", () => {
+    expect(validateResponse(getOrder, { status: 202, body: {} })).toEqual(["Status 202 is not documented for operation getOrder"]);
+    expect(validateResponse(getOrder, { status: 200, contentType: "text/html", body: "<html>" }))
+      .toEqual(["Content type text/html is not documented, expected application/json"]);
+    expect(validateResponse(getOrder, { status: 200, contentType: "application/json", body: { pricingSummary: { total: { value: 10 } } } }))
+      .toEqual(["Response body /pricingSummary/total/value must be string"]);
+  });
+});
+
+describe("validateUrlHeaders", () => {
+  it("checks enumerated headers case insensitively and lists the allowed values", () => {
+    const parameters: OpenAPIV3.ParameterObject[] = [
+      { name: "X-EBAY-C-MARKETPLACE-ID", in: "header", required: true, schema: { type: "string", enum: ["EBAY_US", "EBAY_GB"] } },
+    ];
+    const errors: string[] = [];
+    validateUrlHeaders({ "x-ebay-c-marketplace-id": "EBAY_GB" }, parameters, errors);
+    validateUrlHeaders({ "X-EBAY-C-MARKETPLACE-ID": "EBAY_XX" }, parameters, errors);
+    expect(errors).toEqual(["Invalid header parameter X-EBAY-C-MARKETPLACE-ID: EBAY_XX is not one of EBAY_US, EBAY_GB"]);
+  });
+});
+
+describe("findMissingScopes", () => {
+  const inventoryScope = "https://api.ebay.com/oauth/api_scope/sell.inventory";
+  const readonlyScope = "https://api.ebay.com/oauth/api_scope/sell.inventory.readonly";
+  const readSecurity: OpenAPIV3.SecurityRequirementObject[] = [{ api_auth: [readonlyScope, inventoryScope] }];
+
+  it("accepts any one of the scopes listed in a requirement", () => {
+    expect(findMissingScopes(readSecurity, [inventoryScope])).toEqual([]);
+    expect(findMissingScopes(readSecurity, [readonlyScope])).toEqual([]);
+  });
+
+  it("reports the scopes of the closest requirement when none is satisfied", () => {
+    expect(findMissingScopes(readSecurity, ["https://api.ebay.com/oauth/api_scope"])).toEqual([readonlyScope, inventoryScope]);
+    expect(findMissingScopes([{ api_auth: [readonlyScope, inventoryScope] }, { api_auth: ["other"] }], [])).toEqual(["other"]);
+  });
+
+  it("skips the check when the granted scopes or the requirements are unknown", () => {
+    expect(findMissingScopes(readSecurity, undefined)).toEqual([]);
+    expect(findMissingScopes(undefined, [])).toEqual([]);
+    expect(findMissingScopes([{ api_auth: [] }], [])).toEqual([]);
+  });
+});
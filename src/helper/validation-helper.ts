@@ -3,7 +3,8 @@
  */
 import { type OpenAPIV3 } from "openapi-types";
 import AjvLib from "ajv";
-import { SUPPORTED_CALLING_METHODS, USER_ENVIRONMENT } from "../constant/constants.js";
+import { USER_ENVIRONMENT } from "../constant/constants.js";
+import { isOperationAllowed } from "./write-policy.js";
 const Ajv = AjvLib.default || AjvLib;
 
 /**
@@ -18,16 +19,11 @@ export function validateRequestParameters(
     urlQueryParams?: Record<string, unknown>;
     headers?: Record<string, string>;
     requestBody?: Record<string, unknown>;
+    grantedScopes?: string[];
   },
-): { isValid: boolean; errors: string[] } {
+): { isValid: boolean; errors: string[]; missingScopes?: string[] } {
   const errors: string[] = [];
 
-  // validate method
-  if (!SUPPORTED_CALLING_METHODS[USER_ENVIRONMENT].includes(method.toLowerCase())) {
-    errors.push(`Method ${method} is not supported in ${USER_ENVIRONMENT} environment`);
-    return { isValid: false, errors };
-  }
-
   // validate path
   const {pathValidateRes, apiPath, specPath, specPathItem} = validatePath(openApiDoc, url);
   if (!pathValidateRes || !specPathItem) {
@@ -42,9 +38,37 @@ export function validateRequestParameters(
     return { isValid: false, errors };
   }
 
-  // Initialize AJV for schema validation
-  const _ajv = new Ajv({ allErrors: true });
+  // validate method, methods not supported in the environment need the operation to be on the allowlist
+  if (!isOperationAllowed(method, operation.operationId, apiPath)) {
+    errors.push(`Method ${method} is not supported in ${USER_ENVIRONMENT} environment, unless the operation is listed in EBAY_PRODUCTION_WRITE_ALLOWLIST`);
+    return { isValid: false, errors };
+  }
+
+  // Check the token carries the scopes the operation requires before anything is sent
+  const missingScopes = findMissingScopes(operation.security ?? openApiDoc.security, input.grantedScopes);
+  if (missingScopes.length > 0) {
+    errors.push(formatMissingScopes(missingScopes));
+    return { isValid: false, errors, missingScopes };
+  }
+
+  validateOperationInput(operation, input, errors);
 
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Validate path, query, header and body inputs against a resolved operation
+ */
+export function validateOperationInput(
+  operation: OpenAPIV3.OperationObject,
+  input: {
+    urlVariables?: Record<string, unknown>;
+    urlQueryParams?: Record<string, unknown>;
+    headers?: Record<string, string>;
+    requestBody?: Record<string, unknown>;
+  },
+  errors: string[],
+): void {
   validateUrlPathParam(input.urlVariables, operation.parameters, errors);
 
   validateUrlQueryParam(input.urlQueryParams, operation.parameters, errors);
@@ -52,8 +76,41 @@ export function validateRequestParameters(
   validateUrlHeaders(input.headers, operation.parameters, errors);
 
   validateUrlRequestBody(input.requestBody, operation.requestBody, errors);
+}
 
-  return { isValid: errors.length === 0, errors };
+/**
+ * Find the OAuth scopes missing from the granted scopes to satisfy the security requirements.
+ * Requirements are alternatives, and so are the scopes eBay lists in a requirement (e.g. "sell.inventory.readonly"
+ * and "sell.inventory"): one granted scope per scheme satisfies it. Returns the scopes one of which must be granted
+ * for the closest requirement, or an empty list when a requirement is satisfied or the granted scopes are unknown.
+ */
+export function findMissingScopes(
+  security: OpenAPIV3.SecurityRequirementObject[] | undefined,
+  grantedScopes: string[] | undefined,
+): string[] {
+  if (!grantedScopes || !security || security.length === 0) {
+    return [];
+  }
+  let bestMissing: string[] | undefined;
+  for (const requirement of security) {
+    const missing = Object.values(requirement)
+      .filter(scopes => scopes.length > 0 && !scopes.some(scope => grantedScopes.includes(scope)))
+      .flat();
+    if (missing.length === 0) {
+      return [];
+    }
+    if (!bestMissing || missing.length < bestMissing.length) {
+      bestMissing = missing;
+    }
+  }
+  return bestMissing || [];
+}
+
+/**
+ * Error message of missing scopes found by findMissingScopes
+ */
+export function formatMissingScopes(missingScopes: string[]): string {
+  return `Missing scopes, the token needs one of: ${missingScopes.join(", ")}`;
 }
 
 /**
@@ -81,7 +138,7 @@ export function validatePath(openApiDoc: OpenAPIV3.Document, inputUrl: string):
       }
     }
   }
-  const basePathRegex = new RegExp(`${basePath.replace(/\{[^}]+\}/g, "[^/]+")  }$`);
+  const basePathRegex = new RegExp(`^${basePath.replace(/\{[^}]+\}/g, "[^/]+")}(/|$)`);
   if (basePath && !basePathRegex.test(apiPath)) {
     console.error(`API path ${apiPath} does not match the base path ${basePath} in OpenAPI specification.`);
     return {pathValidateRes : false, apiPath, specPath: "", specPathItem: undefined};
@@ -241,13 +298,22 @@ export function validateUrlHeaders(
 
     for (const param of headerParams) {
       const headerName = param.name.toLowerCase();
-      const value = headers[headerName] || headers[param.name];
+      // header names are case insensitive
+      const givenName = Object.keys(headers).find(name => name.toLowerCase() === headerName);
+      const value = givenName ? headers[givenName] : undefined;
 
       if (param.required && (value === undefined || value === null || value === "")) {
         errors.push(`Missing required header parameter: ${param.name}`);
         continue;
       }
 
+      // enumerated headers like the marketplace ID get the allowed values in the error
+      const allowedValues = param.schema && !("$ref" in param.schema) ? param.schema.enum : undefined;
+      if (value !== undefined && allowedValues && !allowedValues.includes(value)) {
+        errors.push(`Invalid header parameter ${param.name}: ${value} is not one of ${allowedValues.join(", ")}`);
+        continue;
+      }
+
       if (value !== undefined && param.schema) {
         const validate = ajv.compile(param.schema);
         if (!validate(value)) {
@@ -294,3 +360,62 @@ export function validateUrlRequestBody(
     }
   }
 }
+
+/**
+ * Validate an eBay response against the operation's responses entry, returns the schema drift warnings.
+ * Checks the status code is documented, the content type is one of the documented ones and the body matches the schema.
+ */
+export function validateResponse(
+  operation: OpenAPIV3.OperationObject,
+  response: { status: number; contentType?: string; body: unknown },
+): string[] {
+  const warnings: string[] = [];
+  const statusKey = String(response.status);
+  const responseEntry = operation.responses?.[statusKey]
+    ?? operation.responses?.[`${statusKey[0]}XX`]
+    ?? operation.responses?.default;
+  if (!responseEntry) {
+    warnings.push(`Status ${response.status} is not documented for operation ${operation.operationId}`);
+    return warnings;
+  }
+  if ("$ref" in responseEntry) {
+    return warnings;
+  }
+
+  const hasBody = response.body !== undefined && response.body !== null && response.body !== "";
+  const documentedTypes = Object.keys(responseEntry.content || {});
+  if (documentedTypes.length === 0) {
+    if (hasBody) {
+      warnings.push(`Status ${response.status} has a body but the spec documents none`);
+    }
+    return warnings;
+  }
+  if (!hasBody) {
+    return warnings;
+  }
+  const mediaType = (response.contentType || "").split(";")[0].trim().toLowerCase();
+  const matchedType = documentedTypes.find(type => type.toLowerCase() === mediaType)
+    ?? documentedTypes.find(type => type.endsWith("/*") && mediaType.startsWith(type.slice(0, -1)));
+  if (mediaType && !matchedType) {
+    warnings.push(`Content type ${mediaType} is not documented, expected ${documentedTypes.join(" or ")}`);
+    return warnings;
+  }
+
+  const schema = responseEntry.content?.[matchedType || documentedTypes[0]]?.schema;
+  if (!schema || "$ref" in schema || typeof response.body !== "object") {
+    return warnings;
+  }
+  try {
+    const ajv = new Ajv({ allErrors: true, strict: false, validateFormats: false });
+    const validate = ajv.compile(schema);
+    if (!validate(response.body)) {
+      for (const error of validate.errors || []) {
+        warnings.push(`Response body ${error.instancePath || "/"} ${error.message}`);
+      }
+    }
+  } catch (error) {
+    // recursive schemas can't be compiled, the body is left unchecked
+    console.error(`validateResponse#[Failed to compile the response schema of ${operation.operationId}: ${error instanceof Error ? error.message : String(error)}]`);
+  }
+  return warnings;
+}
@@ -0,0 +1,24 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { isOperationAllowed, requiresConfirmation } from "./write-policy.js";
+
+describe("write policy", () => {
+  afterEach(() => {
+    delete process.env.EBAY_PRODUCTION_WRITE_ALLOWLIST;
+  });
+
+  it("allows only read operations in production by default", () => {
+    expect(isOperationAllowed("GET", "getOffer", "/sell/inventory/v1/offer/{offerId}")).toBe(true);
+    expect(isOperationAllowed("POST", "createOffer", "/sell/inventory/v1/offer")).toBe(false);
+    expect(requiresConfirmation("get")).toBe(false);
+    expect(requiresConfirmation("post")).toBe(true);
+  });
+
+  it("allows write operations by operationId or path pattern", () => {
+    process.env.EBAY_PRODUCTION_WRITE_ALLOWLIST = "createOffer, POST /sell/inventory/v1/offer/*/publish, /sell/account/**";
+    expect(isOperationAllowed("POST", "createOffer", "/sell/inventory/v1/offer")).toBe(true);
+    expect(isOperationAllowed("POST", "publishOffer", "/sell/inventory/v1/offer/{offerId}/publish")).toBe(true);
+    expect(isOperationAllowed("DELETE", "withdrawOffer", "/sell/inventory/v1/offer/{offerId}/publish")).toBe(false);
+    expect(isOperationAllowed("PUT", "updateOffer", "/sell/inventory/v1/offer/{offerId}")).toBe(false);
+    expect(isOperationAllowed("DELETE", "deletePolicy", "/sell/account/v1/payment_policy/1")).toBe(true);
+  });
+});
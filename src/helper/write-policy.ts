@@ -0,0 +1,68 @@
+/**
+ * Policy for operations whose method is not supported in the environment (production is read only by default).
+ * Single operations are opted in with EBAY_PRODUCTION_WRITE_ALLOWLIST, and need the user's confirmation before each call.
+ */
+import { SUPPORTED_CALLING_METHODS, USER_ENVIRONMENT } from "../constant/constants.js";
+
+/**
+ * Allowlist entry, matching an operationId or a (method and) path pattern
+ */
+interface AllowlistEntry {
+  method?: string;
+  operationId?: string;
+  pathPattern?: RegExp;
+}
+
+/**
+ * Parse the allowlist, a comma separated list of operationIds (`createOffer`) and path patterns optionally
+ * prefixed with a method (`POST /sell/inventory/v1/offer/*\/publish`). In patterns `*` matches a single
+ * path segment and `**` any number of segments.
+ */
+export function parseWriteAllowlist(value: string | undefined): AllowlistEntry[] {
+  return (value || "").split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [first, second] = entry.split(/\s+/);
+      if (second) {
+        return { method: first.toLowerCase(), pathPattern: buildPathPattern(second) };
+      }
+      return first.startsWith("/") ? { pathPattern: buildPathPattern(first) } : { operationId: first };
+    });
+}
+
+/**
+ * Whether the operation may be called in the current environment: its method is supported,
+ * or the operation is on the allowlist
+ */
+export function isOperationAllowed(method: string, operationId: string | undefined, apiPath: string): boolean {
+  const lowerMethod = method.toLowerCase();
+  if (SUPPORTED_CALLING_METHODS[USER_ENVIRONMENT].includes(lowerMethod)) {
+    return true;
+  }
+  return parseWriteAllowlist(process.env.EBAY_PRODUCTION_WRITE_ALLOWLIST).some(entry => {
+    if (entry.operationId) {
+      return entry.operationId === operationId;
+    }
+    return (!entry.method || entry.method === lowerMethod) && !!entry.pathPattern?.test(apiPath);
+  });
+}
+
+/**
+ * Whether calls with the method need the user's confirmation, which is the case for allowlisted operations
+ */
+export function requiresConfirmation(method: string): boolean {
+  return !SUPPORTED_CALLING_METHODS[USER_ENVIRONMENT].includes(method.toLowerCase());
+}
+
+function buildPathPattern(pattern: string): RegExp {
+  const source = pattern.split("/")
+    .filter(Boolean)
+    .map(segment => segment === "**" ? "(?:/[^/]+)*" : `/${segment.split("*").map(escapeRegExp).join("[^/]*")}`)
+    .join("");
+  return new RegExp(`^${source}/?$`);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
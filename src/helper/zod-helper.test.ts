@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { type OpenAPIV3 } from "openapi-types";
+import { openApiResponseSchemaToZod, openApiSchemaToZod } from "./zod-helper.js";
+
+describe("openApiSchemaToZod", () => {
+  it("converts objects with required and optional properties", () => {
+    const schema = openApiSchemaToZod({
+      type: "object",
+      required: ["sku"],
+      properties: {
+        sku: { type: "string", maxLength: 50 },
+        quantity: { type: "integer", minimum: 0 },
+      },
+    });
+
+    expect(schema.safeParse({ sku: "A1", quantity: 3 }).success).toBe(true);
+    expect(schema.safeParse({ sku: "A1" }).success).toBe(true);
+    expect(schema.safeParse({ quantity: 3 }).success).toBe(false);
+    expect(schema.safeParse({ sku: "A1", quantity: -1 }).success).toBe(false);
+    expect(schema.safeParse({ sku: "A1", quantity: 1.5 }).success).toBe(false);
+  });
+
+  it("keeps undocumented object fields unless additionalProperties is false", () => {
+    const open = openApiSchemaToZod({ type: "object", properties: { a: { type: "string" } } });
+    const closed = openApiSchemaToZod({ type: "object", properties: { a: { type: "string" } }, additionalProperties: false });
+
+    expect(open.parse({ a: "x", b: 1 })).toEqual({ a: "x", b: 1 });
+    expect(closed.safeParse({ a: "x", b: 1 }).success).toBe(false);
+  });
+
+  it("converts enums, arrays and formats", () => {
+    const schema = openApiSchemaToZod({
+      type: "array",
+      maxItems: 2,
+      items: {
+        type: "object",
+        properties: {
+          condition: { type: "string", enum: ["NEW", "USED"] },
+          listedAt: { type: "string", format: "date-time" },
+        },
+      },
+    });
+
+    expect(schema.safeParse([{ condition: "NEW", listedAt: "2024-01-01T00:00:00.000Z" }]).success).toBe(true);
+    expect(schema.safeParse([{ condition: "BROKEN" }]).success).toBe(false);
+    expect(schema.safeParse([{ listedAt: "yesterday" }]).success).toBe(false);
+    expect(schema.safeParse([{}, {}, {}]).success).toBe(false);
+  });
+
+  it("converts oneOf and allOf compositions", () => {
+    const oneOf = openApiSchemaToZod({ oneOf: [{ type: "string" }, { type: "number" }] });
+    const allOf = openApiSchemaToZod({
+      allOf: [
+        { type: "object", required: ["a"], properties: { a: { type: "string" } } },
+        { type: "object", required: ["b"], properties: { b: { type: "string" } } },
+      ],
+    });
+
+    expect(oneOf.safeParse(1).success).toBe(true);
+    expect(oneOf.safeParse(true).success).toBe(false);
+    expect(allOf.safeParse({ a: "x", b: "y" }).success).toBe(true);
+    expect(allOf.safeParse({ a: "x" }).success).toBe(false);
+  });
+
+  it("falls back to any for recursive schemas and keeps descriptions", () => {
+    const category: OpenAPIV3.SchemaObject = { type: "object", description: "A category", properties: {} };
+    category.properties!.parent = category;
+    const schema = openApiSchemaToZod(category);
+
+    expect(schema.description).toBe("A category");
+    expect(schema.safeParse({ parent: { parent: {} } }).success).toBe(true);
+  });
+});
+
+describe("openApiResponseSchemaToZod", () => {
+  it("accepts responses that drift from the spec", () => {
+    const schema = openApiResponseSchemaToZod({
+      type: "object",
+      required: ["orderId"],
+      properties: {
+        orderId: { type: "string", format: "uuid" },
+        orderFulfillmentStatus: { type: "string", enum: ["FULFILLED", "NOT_STARTED"] },
+        lineItems: { type: "array", items: { type: "object", properties: { quantity: { type: "integer", minimum: 1 } } } },
+      },
+    });
+
+    expect(schema.safeParse({}).success).toBe(true);
+    expect(schema.safeParse({ orderId: "123", orderFulfillmentStatus: "IN_PROGRESS", lineItems: [{ quantity: 0, sku: "A" }] }).success).toBe(true);
+    expect(schema.safeParse({ orderFulfillmentStatus: null }).success).toBe(true);
+    expect(schema.safeParse({ lineItems: "none" }).success).toBe(false);
+  });
+});
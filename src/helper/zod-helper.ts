@@ -0,0 +1,218 @@
+/**
+ * Zod helper functions, converting OpenAPI schemas to Zod schemas so tool inputs expose
+ * their types, enums, required flags and nested shapes to MCP clients.
+ */
+import { type OpenAPIV3 } from "openapi-types";
+import { z, type ZodTypeAny } from "zod";
+
+type OpenApiSchema = OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject;
+
+/**
+ * Convert an OpenAPI schema (dereferenced) to a Zod schema.
+ * Unresolved $refs and recursive schemas fall back to z.any().
+ */
+export function openApiSchemaToZod(schema: OpenApiSchema | undefined, ancestors: Set<object> = new Set()): ZodTypeAny {
+  if (!schema || "$ref" in schema) {
+    return z.any();
+  }
+  if (ancestors.has(schema)) {
+    return withDescription(z.any(), schema.description);
+  }
+  ancestors.add(schema);
+  try {
+    let zodSchema = convertSchema(schema, ancestors);
+    if (schema.nullable) {
+      zodSchema = zodSchema.nullable();
+    }
+    return withDescription(zodSchema, schema.description);
+  } finally {
+    ancestors.delete(schema);
+  }
+}
+
+function convertSchema(schema: OpenAPIV3.SchemaObject, ancestors: Set<object>): ZodTypeAny {
+  if (schema.allOf && schema.allOf.length > 0) {
+    return schema.allOf
+      .map(subSchema => openApiSchemaToZod(subSchema, ancestors))
+      .reduce((merged, subSchema) => z.intersection(merged, subSchema));
+  }
+  const alternatives = schema.oneOf || schema.anyOf;
+  if (alternatives && alternatives.length > 0) {
+    return buildUnion(alternatives.map(subSchema => openApiSchemaToZod(subSchema, ancestors)));
+  }
+  if (schema.enum && schema.enum.length > 0) {
+    return buildEnum(schema.enum);
+  }
+
+  switch (schema.type) {
+    case "string":
+      return buildString(schema);
+    case "integer":
+      return buildNumber(schema, z.number().int());
+    case "number":
+      return buildNumber(schema, z.number());
+    case "boolean":
+      return z.boolean();
+    case "array":
+      return buildArray(schema, ancestors);
+    case "object":
+      return buildObject(schema, ancestors);
+    default:
+      // untyped schemas with properties are objects, anything else is unconstrained
+      return schema.properties || schema.additionalProperties ? buildObject(schema, ancestors) : z.any();
+  }
+}
+
+function buildString(schema: OpenAPIV3.SchemaObject): ZodTypeAny {
+  let zodString = z.string();
+  switch (schema.format) {
+    case "date-time":
+      zodString = zodString.datetime({ offset: true });
+      break;
+    case "email":
+      zodString = zodString.email();
+      break;
+    case "uri":
+    case "url":
+      zodString = zodString.url();
+      break;
+    case "uuid":
+      zodString = zodString.uuid();
+      break;
+  }
+  if (schema.minLength !== undefined) {
+    zodString = zodString.min(schema.minLength);
+  }
+  if (schema.maxLength !== undefined) {
+    zodString = zodString.max(schema.maxLength);
+  }
+  if (schema.pattern) {
+    try {
+      zodString = zodString.regex(new RegExp(schema.pattern));
+    } catch (_error) {
+      // patterns that are not valid JS regular expressions are left unchecked
+    }
+  }
+  return zodString;
+}
+
+function buildNumber(schema: OpenAPIV3.SchemaObject, zodNumber: z.ZodNumber): ZodTypeAny {
+  if (schema.minimum !== undefined) {
+    zodNumber = schema.exclusiveMinimum ? zodNumber.gt(schema.minimum) : zodNumber.gte(schema.minimum);
+  }
+  if (schema.maximum !== undefined) {
+    zodNumber = schema.exclusiveMaximum ? zodNumber.lt(schema.maximum) : zodNumber.lte(schema.maximum);
+  }
+  if (schema.multipleOf !== undefined) {
+    zodNumber = zodNumber.multipleOf(schema.multipleOf);
+  }
+  return zodNumber;
+}
+
+function buildArray(schema: OpenAPIV3.SchemaObject, ancestors: Set<object>): ZodTypeAny {
+  const items = "items" in schema ? schema.items : undefined;
+  let zodArray = z.array(openApiSchemaToZod(items, ancestors));
+  if (schema.minItems !== undefined) {
+    zodArray = zodArray.min(schema.minItems);
+  }
+  if (schema.maxItems !== undefined) {
+    zodArray = zodArray.max(schema.maxItems);
+  }
+  return zodArray;
+}
+
+function buildObject(schema: OpenAPIV3.SchemaObject, ancestors: Set<object>): ZodTypeAny {
+  const additionalProperties = schema.additionalProperties;
+  if (!schema.properties && additionalProperties && typeof additionalProperties === "object") {
+    return z.record(z.string(), openApiSchemaToZod(additionalProperties, ancestors));
+  }
+
+  const required = schema.required || [];
+  const shape: Record<string, ZodTypeAny> = {};
+  for (const [name, propertySchema] of Object.entries(schema.properties || {})) {
+    const zodProperty = openApiSchemaToZod(propertySchema, ancestors);
+    shape[name] = required.includes(name) ? zodProperty : zodProperty.optional();
+  }
+  const zodObject = z.object(shape);
+  if (additionalProperties === false) {
+    return zodObject.strict();
+  }
+  if (additionalProperties && typeof additionalProperties === "object") {
+    return zodObject.catchall(openApiSchemaToZod(additionalProperties, ancestors));
+  }
+  // fields the spec doesn't list are kept, eBay often accepts more than it documents
+  return zodObject.passthrough();
+}
+
+function buildEnum(values: unknown[]): ZodTypeAny {
+  if (values.every(value => typeof value === "string")) {
+    return z.enum(values as [string, ...string[]]);
+  }
+  return buildUnion(values.map(value => z.literal(value as string | number | boolean | null)));
+}
+
+function buildUnion(options: ZodTypeAny[]): ZodTypeAny {
+  if (options.length === 1) {
+    return options[0];
+  }
+  return z.union(options as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]);
+}
+
+function withDescription(zodSchema: ZodTypeAny, description: string | undefined): ZodTypeAny {
+  return description ? zodSchema.describe(description) : zodSchema;
+}
+
+/**
+ * Convert an OpenAPI response schema (dereferenced) to a lenient Zod schema for tool output:
+ * every field is optional and nullable, and formats, bounds and enums are not checked,
+ * so responses that drift from the spec still pass validation.
+ */
+export function openApiResponseSchemaToZod(schema: OpenApiSchema | undefined, ancestors: Set<object> = new Set()): ZodTypeAny {
+  if (!schema || "$ref" in schema || ancestors.has(schema)) {
+    return z.any();
+  }
+  ancestors.add(schema);
+  try {
+    return withDescription(convertResponseSchema(schema, ancestors), schema.description);
+  } finally {
+    ancestors.delete(schema);
+  }
+}
+
+function convertResponseSchema(schema: OpenAPIV3.SchemaObject, ancestors: Set<object>): ZodTypeAny {
+  if (schema.allOf && schema.allOf.length > 0) {
+    const parts = schema.allOf.map(subSchema => openApiResponseSchemaToZod(subSchema, ancestors));
+    return parts.every(part => part instanceof z.ZodObject)
+      ? (parts as z.AnyZodObject[]).reduce((merged, part) => merged.merge(part)).passthrough()
+      : z.any();
+  }
+  if (schema.oneOf || schema.anyOf) {
+    return z.any();
+  }
+
+  switch (schema.type) {
+    case "string":
+      return z.string();
+    case "integer":
+    case "number":
+      return z.number();
+    case "boolean":
+      return z.boolean();
+    case "array":
+      return z.array(openApiResponseSchemaToZod("items" in schema ? schema.items : undefined, ancestors));
+    default: {
+      const additionalProperties = schema.additionalProperties;
+      if (!schema.properties && additionalProperties && typeof additionalProperties === "object") {
+        return z.record(z.string(), openApiResponseSchemaToZod(additionalProperties, ancestors).nullable());
+      }
+      if (!schema.properties && schema.type !== "object") {
+        return z.any();
+      }
+      const shape: Record<string, ZodTypeAny> = {};
+      for (const [name, propertySchema] of Object.entries(schema.properties || {})) {
+        shape[name] = openApiResponseSchemaToZod(propertySchema, ancestors).nullable().optional();
+      }
+      return z.object(shape).passthrough();
+    }
+  }
+}
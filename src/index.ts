@@ -1,25 +1,40 @@
 #!/usr/bin/env node
-// Load environment variables from .env file
-import * as dotenv from "dotenv";
-dotenv.config();
+// Load environment variables from .env file and the config file, before any other module reads them
+import "./config.js";
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { registerOpenApiTools } from "./service/openapi-service.js";
+import { loadOpenApiSpecs, registerOpenApiTools } from "./service/openapi-service.js";
+import { startHttpTransport } from "./service/http-transport-service.js";
+import { getCredentialsFromEnv, type EbayCredentials } from "./helper/auth-helper.js";
+import { getCliOption } from "./helper/config-helper.js";
+import { watchSpecSources } from "./helper/spec-watcher.js";
 import * as constants from "./constant/constants.js";
 
 /**
- * Check if required environment variables are set for eBay API authentication
+ * Check if required environment variables are set for eBay API authentication.
+ * A shared HTTP server can run without them, its clients then supply their own credentials.
  */
-function checkEnvironmentVariables(): void {
+function checkEnvironmentVariables(transportType: string): boolean {
+  // the mock environment never calls eBay, so no credentials are needed
+  if (constants.USER_ENVIRONMENT === constants.ApiEnvironment.MOCK) {
+    return true;
+  }
 
-  // environment vals check
-  const missingVars = constants.REQUIRED_ENV_VARS.filter(varName => !process.env[varName]);
+  // environment vals check, one group of variables must be fully set
+  const hasCompleteGroup = constants.REQUIRED_ENV_VAR_GROUPS
+    .some(group => group.every(varName => process.env[varName]));
 
-  if (missingVars.length > 0) {
-    console.error(`Missing required environment variables: ${missingVars.join(", ")}`);
+  if (!hasCompleteGroup) {
+    const options = constants.REQUIRED_ENV_VAR_GROUPS.map(group => group.join(" + ")).join(" or ");
+    if (transportType === "http") {
+      console.error(`${options} not set, HTTP clients must supply their own eBay credentials`);
+      return false;
+    }
+    console.error(`Missing required environment variables: ${options}`);
     process.exit(1);
   }
+  return true;
 }
 
 /**
@@ -28,18 +43,52 @@ function checkEnvironmentVariables(): void {
  */
 async function main(): Promise<void> {
   console.error("Starting eBay API MCP Server...");
+  const transportType = getCliOption("transport") || process.env.EBAY_MCP_TRANSPORT || "stdio";
   // Check for required environment variables
-  checkEnvironmentVariables();
-  const server = initServer();
+  const hasEnvironmentCredentials = checkEnvironmentVariables(transportType);
 
   try {
-    // Register the OpenAPI tools with the server
-    await registerOpenApiTools(server);
+    // Load the OpenAPI specs, every server instance registers tools from them
+    await loadOpenApiSpecs();
+    const createServer = async (credentials: EbayCredentials): Promise<McpServer> => {
+      const server = initServer();
+      await registerOpenApiTools(server, credentials);
+      return server;
+    };
+    // reload the specs when their files change, servers update their tools and notify their clients
+    const urlFile = process.env.EBAY_API_DOC_URL_FILE;
+    if (urlFile && process.env.EBAY_API_DOC_WATCH !== "false") {
+      watchSpecSources(urlFile, async () => {
+        console.error("OpenAPI spec sources changed, reloading specs");
+        await loadOpenApiSpecs();
+      });
+    }
+
+    if (transportType === "http") {
+      const port = Number(getCliOption("port") || process.env.EBAY_MCP_HTTP_PORT || constants.DEFAULT_HTTP_PORT);
+      const host = getCliOption("host") || process.env.EBAY_MCP_HTTP_HOST || constants.DEFAULT_HTTP_HOST;
+      const authToken = process.env.EBAY_MCP_HTTP_AUTH_TOKEN;
+      if (!authToken) {
+        console.error("EBAY_MCP_HTTP_AUTH_TOKEN is not set, the HTTP endpoint accepts unauthenticated clients");
+      }
+      // sessions without client credentials fall back to the environment ones, unless clients must bring their own
+      const requireClientCredentials = process.env.EBAY_MCP_REQUIRE_CLIENT_CREDENTIALS === "true";
+      const defaultCredentials = hasEnvironmentCredentials && !requireClientCredentials ? getCredentialsFromEnv() : undefined;
+      const stop = await startHttpTransport(createServer, { host, port, authToken, defaultCredentials });
+      registerShutdownHandlers(stop);
+      return;
+    }
+    if (transportType !== "stdio") {
+      throw new Error(`Unsupported transport ${transportType}, use "stdio" or "http"`);
+    }
+
+    const server = await createServer(getCredentialsFromEnv());
     console.error("Successfully registered OpenAPI tools");
 
     // Create and connect server transport
     const transport = new StdioServerTransport();
     await server.connect(transport);
+    registerShutdownHandlers(() => server.close());
     console.error("eBay API MCP Server running on stdio transport");
 
   } catch (error) {
@@ -49,6 +98,23 @@ async function main(): Promise<void> {
   }
 }
 
+/**
+ * Close connections and exit on SIGINT/SIGTERM
+ */
+function registerShutdownHandlers(stop: () => Promise<void>): void {
+  let stopping = false;
+  const shutdown = (signal: string) => {
+    if (stopping) {return;}
+    stopping = true;
+    console.error(`Received ${signal}, shutting down eBay API MCP Server...`);
+    stop()
+      .catch(error => console.error("Error during shutdown:", error instanceof Error ? error.message : String(error)))
+      .finally(() => process.exit(0));
+  };
+  process.on("SIGINT", () => shutdown("SIGINT"));
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+}
+
 // Run the server
 main().catch((error) => {
   console.error("Fatal error:", error instanceof Error ? error.message : String(error));
@@ -66,5 +132,8 @@ function initServer(): McpServer {
       resources: {},
       tools: {},
     },
+  }, {
+    // a spec reload adds and removes many tools, clients get one notification for it
+    debouncedNotificationMethods: ["notifications/tools/list_changed", "notifications/resources/list_changed"],
   });
 }
@@ -0,0 +1,61 @@
+/**
+ * Audit service for registering the audit log query tool with MCP server
+ */
+import { type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { isAuditLogEnabled, readAuditEntries } from "../helper/audit-log.js";
+import { type EbayCredentials } from "../helper/auth-helper.js";
+import { formatResponse } from "../helper/response-formatter.js";
+
+const AUDIT_LOG_TOOL_DESCRIPTION = `eBay API Audit Log Tool
+
+Purpose: Lists the most recent calls this server sent to eBay, as recorded in the audit log.
+
+When to use:
+- When the user asks what was done against their eBay account
+- When investigating a failed or unexpected API call
+
+Output format:
+- Entries newest first, each with timestamp, tool, operationId, method, url, status, duration, request/response sizes and outcome`;
+
+/**
+ * Register the audit log tool, only when the audit log is enabled.
+ * Sessions of a shared server only see their own calls.
+ */
+export function registerAuditTools(server: McpServer, credentials: EbayCredentials): void {
+  if (!isAuditLogEnabled()) {return;}
+
+  server.tool(
+    "get_ebay_audit_log",
+    AUDIT_LOG_TOOL_DESCRIPTION,
+    {
+      limit: z.number().int().min(1).max(200).optional().describe("Maximum number of entries, defaults to 20"),
+      tool: z.string().optional().describe("Only list calls made by this tool"),
+      operationId: z.string().optional().describe("Only list calls of this operation"),
+      outcome: z.enum(["success", "error"]).optional().describe("Only list successful or failed calls"),
+    },
+    async (input) => {
+      try {
+        const entries = readAuditEntries({
+          limit: input.limit ?? 20,
+          tool: input.tool,
+          operationId: input.operationId,
+          outcome: input.outcome,
+          sessionId: credentials.sessionId,
+        });
+        return {
+          content: [
+            { type: "text" as const, text: entries.length > 0 ? formatResponse({ entries }) : "No matching audit log entries" },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            { type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+}
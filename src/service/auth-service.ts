@@ -0,0 +1,81 @@
+/**
+ * Auth service for registering the user consent tools with MCP server
+ */
+import { type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { buildUserConsentUrl, exchangeAuthorizationCode, isUserConsentConfigured, type EbayCredentials } from "../helper/auth-helper.js";
+import { runWithAuditContext } from "../helper/audit-log.js";
+
+const CONSENT_URL_TOOL_DESCRIPTION = `eBay User Consent Tool
+
+Purpose: Starts the OAuth authorization code flow so the server can call seller APIs (Inventory, Fulfillment, Account, ...) on behalf of the user.
+
+When to use:
+- When call_ebay_api returns an authorization error because a user token is required
+- When the user asks to connect their eBay seller account
+
+Output format:
+- The consent page url the user must open in a browser, sign in and accept
+- After accepting, the user copies the url eBay redirected to (or just its code parameter) and it is passed to exchange_ebay_authorization_code`;
+
+const EXCHANGE_CODE_TOOL_DESCRIPTION = `eBay Authorization Code Exchange Tool
+
+Purpose: Completes the OAuth authorization code flow started by get_ebay_user_consent_url.
+
+Input required:
+- The url eBay redirected to after consent, or the value of its code parameter
+
+Result: The user token is kept by the server (encrypted on disk for a local server, in memory for the session of a shared server) and refreshed automatically, later API calls run as the user.`;
+
+/**
+ * Register the user consent tools, only when the authorization code flow is configured for the credentials
+ */
+export function registerAuthTools(server: McpServer, credentials: EbayCredentials): void {
+  if (!isUserConsentConfigured(credentials)) {return;}
+
+  server.tool(
+    "get_ebay_user_consent_url",
+    CONSENT_URL_TOOL_DESCRIPTION,
+    async () => {
+      try {
+        const { url } = buildUserConsentUrl(credentials);
+        return {
+          content: [
+            { type: "text" as const, text: `Ask the user to open this url, sign in to eBay and accept the consent:\n${url}` },
+            { type: "text" as const, text: "Then pass the url eBay redirected to (or its code parameter) to exchange_ebay_authorization_code." },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            { type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "exchange_ebay_authorization_code",
+    EXCHANGE_CODE_TOOL_DESCRIPTION,
+    { code: z.string().describe("The redirect url after consent, or the authorization code from it") },
+    (input) => runWithAuditContext({ tool: "exchange_ebay_authorization_code" }, async () => {
+      try {
+        const token = await exchangeAuthorizationCode(input.code, credentials);
+        return {
+          content: [
+            { type: "text" as const, text: `User token stored, granted scopes: ${token.scopes.join(" ")}` },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            { type: "text" as const, text: `Error: ${error instanceof Error ? error.message : String(error)}` },
+          ],
+          isError: true,
+        };
+      }
+    }),
+  );
+}
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { startHttpTransport } from "./http-transport-service.js";
+
+const AUTH_TOKEN = "shared-secret";
+const INITIALIZE_REQUEST = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "test-client", version: "1.0.0" } },
+};
+
+describe("HTTP transport", () => {
+  let baseUrl: string;
+  let stop: () => Promise<void>;
+  let createdServers: number;
+
+  beforeEach(async () => {
+    createdServers = 0;
+    const logSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    stop = await startHttpTransport(async () => {
+      createdServers++;
+      return new McpServer({ name: "test-server", version: "1.0.0" });
+    }, { port: 0, authToken: AUTH_TOKEN, defaultCredentials: { clientToken: "test-token" } });
+    const listening = logSpy.mock.calls.map(call => String(call[0])).find(message => message.includes("listening on"))!;
+    baseUrl = listening.match(/http:\/\/[^/]+/)![0];
+    logSpy.mockRestore();
+  });
+
+  afterEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await stop();
+    vi.restoreAllMocks();
+  });
+
+  function post(body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${AUTH_TOKEN}`,
+        "Content-Type": "application/json",
+        "Accept": "application/json, text/event-stream",
+        ...headers,
+      },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    });
+  }
+
+  it("binds to the local machine by default", () => {
+    expect(baseUrl).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+  });
+
+  it("rejects requests without the bearer token", async () => {
+    expect((await post(INITIALIZE_REQUEST, { Authorization: "" })).status).toBe(401);
+    expect((await post(INITIALIZE_REQUEST, { Authorization: "Bearer wrong" })).status).toBe(401);
+  });
+
+  it("creates a session on initialize and reuses it by its id", async () => {
+    const initialized = await post(INITIALIZE_REQUEST);
+    const sessionId = initialized.headers.get("mcp-session-id")!;
+    await initialized.text();
+    expect(initialized.status).toBe(200);
+    expect(sessionId).toBeTruthy();
+
+    const headers = { "mcp-session-id": sessionId, "mcp-protocol-version": "2025-06-18" };
+    await (await post({ jsonrpc: "2.0", method: "notifications/initialized" }, headers)).text();
+    const pinged = await post({ jsonrpc: "2.0", id: 2, method: "ping" }, headers);
+
+    expect(pinged.status).toBe(200);
+    expect(await pinged.text()).toContain("\"id\":2");
+    expect(createdServers).toBe(1);
+  });
+
+  it("rejects unknown sessions and requests without a session", async () => {
+    expect((await post({ jsonrpc: "2.0", id: 2, method: "ping" }, { "mcp-session-id": "unknown" })).status).toBe(404);
+    expect((await post({ jsonrpc: "2.0", id: 2, method: "ping" })).status).toBe(400);
+  });
+
+  it("rejects oversized bodies with 413", async () => {
+    const response = await post(JSON.stringify({ ...INITIALIZE_REQUEST, padding: "x".repeat(5 * 1024 * 1024) }));
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ jsonrpc: "2.0", error: { message: expect.stringContaining("Request body exceeds") } });
+  });
+});
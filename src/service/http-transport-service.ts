@@ -0,0 +1,261 @@
+/**
+ * HTTP transport service, serving MCP over Streamable HTTP (with the legacy SSE transport as fallback)
+ * so one server can be shared by a team. Each client session gets its own MCP server instance,
+ * authorized with the eBay credentials the client supplied.
+ */
+import { type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID, timingSafeEqual } from "crypto";
+import http, { type IncomingMessage, type ServerResponse } from "http";
+import { type AddressInfo } from "net";
+import { DEFAULT_HTTP_HOST } from "../constant/constants.js";
+import {
+  forgetSessionCredentials, getCredentialsFromHeaders, getCredentialsFromInitializeMeta, type EbayCredentials,
+} from "../helper/auth-helper.js";
+
+const MCP_ENDPOINT = "/mcp";
+const SSE_ENDPOINT = "/sse";
+const SSE_MESSAGES_ENDPOINT = "/messages";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Options of the HTTP transport
+ */
+export interface HttpTransportOptions {
+  // defaults to DEFAULT_HTTP_HOST, only reachable from the local machine
+  host?: string;
+  // 0 picks a free port
+  port: number;
+  authToken?: string;
+  // used for sessions whose client supplied no credentials, when unset such sessions are rejected
+  defaultCredentials?: EbayCredentials;
+}
+
+/**
+ * Create the MCP server of a session, authorized with the session's credentials
+ */
+export type SessionServerFactory = (credentials: EbayCredentials) => Promise<McpServer>;
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+}
+
+/**
+ * Start the HTTP server, returns a function that closes every session and stops the server
+ */
+export async function startHttpTransport(
+  createServer: SessionServerFactory,
+  options: HttpTransportOptions,
+): Promise<() => Promise<void>> {
+  const sessions = new Map<string, Session>();
+
+  const httpServer = http.createServer((req, res) => {
+    handleHttpRequest(req, res, sessions, createServer, options).catch(error => {
+      console.error("Error handling MCP HTTP request:", error instanceof Error ? error.message : String(error));
+      if (!res.headersSent) {
+        const status = (error as { status?: number }).status;
+        if (status === 413) {
+          // the rest of the body is not read, the connection can't be reused
+          res.setHeader("Connection", "close");
+        }
+        sendJsonRpcError(res, status || 500, status && error instanceof Error ? error.message : "Internal server error");
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host || DEFAULT_HTTP_HOST, () => resolve());
+  });
+  const { address, port } = httpServer.address() as AddressInfo;
+  console.error(`eBay API MCP Server listening on http://${address}:${port}${MCP_ENDPOINT} (SSE fallback on ${SSE_ENDPOINT})`);
+
+  return async () => {
+    console.error(`Closing ${sessions.size} MCP sessions`);
+    await Promise.allSettled([...sessions.values()].map(session => session.transport.close()));
+    sessions.clear();
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+  };
+}
+
+async function handleHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  sessions: Map<string, Session>,
+  createServer: SessionServerFactory,
+  options: HttpTransportOptions,
+): Promise<void> {
+  if (!isAuthorized(req, options.authToken)) {
+    res.writeHead(401, { "WWW-Authenticate": "Bearer" }).end("Unauthorized");
+    return;
+  }
+  const { pathname, searchParams } = new URL(req.url || "/", "http://localhost");
+
+  if (pathname === MCP_ENDPOINT) {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (session) {
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 400, "Session uses the SSE transport");
+        return;
+      }
+      const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+      if (req.method === "POST" && body === undefined) {
+        sendJsonRpcError(res, 400, "Parse error: invalid JSON body");
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+    if (sessionId) {
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "No valid session ID provided");
+      return;
+    }
+    const newSessionId = randomUUID();
+    const credentials = resolveSessionCredentials(req, body.params._meta, newSessionId, options);
+    if (!credentials) {
+      sendJsonRpcError(res, 401, "eBay credentials required: send X-EBAY-Client-Token or X-EBAY-Client-Id and X-EBAY-Client-Secret headers");
+      return;
+    }
+    await startStreamableSession(req, res, body, newSessionId, credentials, sessions, createServer);
+    return;
+  }
+
+  if (pathname === SSE_ENDPOINT && req.method === "GET") {
+    const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+    const credentials = resolveSessionCredentials(req, undefined, transport.sessionId, options);
+    if (!credentials) {
+      res.writeHead(401).end("eBay credentials required: send X-EBAY-Client-Token or X-EBAY-Client-Id and X-EBAY-Client-Secret headers");
+      return;
+    }
+    await connectSession(transport, transport.sessionId, credentials, sessions, createServer);
+    return;
+  }
+
+  if (pathname === SSE_MESSAGES_ENDPOINT && req.method === "POST") {
+    const session = sessions.get(searchParams.get("sessionId") || "");
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+    const body = await readJsonBody(req);
+    if (body === undefined) {
+      sendJsonRpcError(res, 400, "Parse error: invalid JSON body");
+      return;
+    }
+    await session.transport.handlePostMessage(req, res, body);
+    return;
+  }
+
+  res.writeHead(404).end("Not found");
+}
+
+async function startStreamableSession(
+  req: IncomingMessage,
+  res: ServerResponse,
+  body: unknown,
+  sessionId: string,
+  credentials: EbayCredentials,
+  sessions: Map<string, Session>,
+  createServer: SessionServerFactory,
+): Promise<void> {
+  let server: McpServer | undefined;
+  // the id is generated up front so the session's credentials can be bound to it before the server is created
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => sessionId,
+    onsessioninitialized: initializedSessionId => {
+      sessions.set(initializedSessionId, { transport, server: server! });
+    },
+  });
+  server = await connectSession(transport, undefined, credentials, sessions, createServer);
+  await transport.handleRequest(req, res, body);
+}
+
+/**
+ * Create a server for the session and connect it, the session and its user token are forgotten when the transport closes
+ * (the server detaches itself from the closed transport)
+ */
+async function connectSession(
+  transport: StreamableHTTPServerTransport | SSEServerTransport,
+  sessionId: string | undefined,
+  credentials: EbayCredentials,
+  sessions: Map<string, Session>,
+  createServer: SessionServerFactory,
+): Promise<McpServer> {
+  const server = await createServer(credentials);
+  transport.onclose = () => {
+    const closedSessionId = sessionId || transport.sessionId;
+    if (credentials.sessionId) {
+      forgetSessionCredentials(credentials.sessionId);
+    }
+    if (closedSessionId && sessions.delete(closedSessionId)) {
+      console.error(`MCP session ${closedSessionId} closed`);
+    }
+  };
+  if (sessionId) {
+    sessions.set(sessionId, { transport, server });
+  }
+  await server.connect(transport);
+  return server;
+}
+
+/**
+ * Credentials of a new session: supplied in the request headers or the initialize request's `_meta.ebay`,
+ * else the server's default credentials. Returns undefined when there are none.
+ * Bound to the session id, so user tokens obtained in the session stay in it, even with the default credentials.
+ */
+function resolveSessionCredentials(
+  req: IncomingMessage,
+  initializeMeta: Record<string, unknown> | undefined,
+  sessionId: string,
+  options: HttpTransportOptions,
+): EbayCredentials | undefined {
+  const credentials = getCredentialsFromHeaders(req.headers)
+    || getCredentialsFromInitializeMeta(initializeMeta)
+    || options.defaultCredentials;
+  return credentials ? { ...credentials, sessionId } : undefined;
+}
+
+function isAuthorized(req: IncomingMessage, authToken: string | undefined): boolean {
+  if (!authToken) {
+    return true;
+  }
+  const expected = Buffer.from(`Bearer ${authToken}`);
+  const actual = Buffer.from(req.headers.authorization || "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Read and parse the JSON body, returns undefined when the body is empty or not valid JSON.
+ * Bodies over MAX_BODY_BYTES are rejected with an error carrying the 413 status.
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw Object.assign(new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`), { status: 413 });
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString("utf-8");
+  try {
+    return text ? JSON.parse(text) : undefined;
+  } catch (_error) {
+    return undefined;
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" })
+    .end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
@@ -0,0 +1,239 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ElicitRequestSchema, type ElicitResult } from "@modelcontextprotocol/sdk/types.js";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { type OpenAPIV3 } from "openapi-types";
+import { AxiosError, type AxiosResponse } from "axios";
+import { getRegisteredSpec, getRegisteredSpecs, replaceConfigSpecs } from "../helper/spec-registry.js";
+import { loadOpenApiSpecs, registerOpenApiTools } from "./openapi-service.js";
+
+// nothing is sent in these tests, token requests included
+const httpClient = vi.hoisted(() => ({ post: vi.fn(), request: vi.fn() }));
+vi.mock("../helper/http-client.js", () => ({ getHttpClient: () => httpClient }));
+
+const inventorySpec: OpenAPIV3.Document = {
+  openapi: "3.0.0",
+  info: { title: "Inventory API", version: "v1" },
+  servers: [{ url: "https://api.ebay.com/sell/inventory/v1" }],
+  paths: {
+    "/inventory_item/{sku}": {
+      get: {
+        operationId: "getInventoryItem",
+        parameters: [
+          { name: "sku", in: "path", required: true, schema: { type: "string" } },
+          { name: "Content-Language", in: "header", required: true, schema: { type: "string" } },
+        ],
+        responses: {
+          200: {
+            description: "OK",
+            content: { "application/json": { schema: { type: "object", properties: { sku: { type: "string" }, description: { type: "string" } } } } },
+          },
+        },
+      },
+    },
+  },
+};
+
+describe("dynamic tools", () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    process.env.EBAY_CONTENT_LANGUAGE = "de-DE";
+    replaceConfigSpecs([inventorySpec]);
+    const server = new McpServer({ name: "test-server", version: "1.0.0" });
+    await registerOpenApiTools(server, { clientId: "test-app", clientSecret: "test-secret" });
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    replaceConfigSpecs([]);
+    httpClient.post.mockReset();
+    httpClient.request.mockReset();
+    delete process.env.EBAY_CONTENT_LANGUAGE;
+  });
+
+  it("fills a required locale header left out of the call with its configured default", async () => {
+    const result = await client.callTool({ name: "getInventoryItem", arguments: { sku: "A1", dryRun: true } });
+
+    expect(result.isError).toBeFalsy();
+    const content = result.content as { type: string; text: string }[];
+    expect(JSON.parse(content[1].text).headers).toMatchObject({ "Content-Language": "de-DE" });
+  });
+
+  it("previews a dry run without requesting an access token", async () => {
+    const result = await client.callTool({ name: "getInventoryItem", arguments: { sku: "A1", "Content-Language": "en-US", dryRun: true } });
+
+    expect(result.isError).toBeFalsy();
+    const content = result.content as { type: string; text: string }[];
+    expect(JSON.parse(content[1].text).headers).toMatchObject({ "Authorization": "Bearer ***", "Content-Language": "en-US" });
+    expect(httpClient.post).not.toHaveBeenCalled();
+  });
+
+  it("leaves the structured content empty when the response exceeds the maximum output size", async () => {
+    httpClient.post.mockResolvedValue({ data: { access_token: "test-token", expires_in: 7200 } });
+    httpClient.request.mockResolvedValue({ status: 200, headers: {}, data: { sku: "A1", description: "x".repeat(200) } });
+
+    const result = await client.callTool({
+      name: "getInventoryItem",
+      arguments: { sku: "A1", "Content-Language": "en-US", output: { maxChars: 100 } },
+    });
+
+    expect(result.structuredContent).toEqual({});
+    const content = result.content as { type: string; text: string }[];
+    expect(content[0].text).toContain("[truncated");
+    expect(content[content.length - 1].text).toContain("Structured content is empty: the response exceeds the maximum output size");
+  });
+
+  it("checks error responses against the spec when response validation is enabled", async () => {
+    process.env.EBAY_VALIDATE_RESPONSES = "true";
+    httpClient.post.mockResolvedValue({ data: { access_token: "test-token", expires_in: 7200 } });
+    const response = { status: 404, statusText: "Not Found", headers: { "content-type": "application/json" }, data: { errors: [{ errorId: 25710 }] } };
+    httpClient.request.mockRejectedValue(new AxiosError("Request failed with status code 404", "ERR_BAD_REQUEST", undefined, undefined, response as AxiosResponse));
+
+    const result = await client.callTool({ name: "getInventoryItem", arguments: { sku: "A1", "Content-Language": "en-US" } });
+    delete process.env.EBAY_VALIDATE_RESPONSES;
+
+    expect(result.isError).toBe(true);
+    const content = result.content as { type: string; text: string }[];
+    expect(content[content.length - 1].text).toContain("Status 404 is not documented for operation getInventoryItem");
+  });
+});
+
+describe("spec reload", () => {
+  let dir: string;
+  let urlFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "ebay-reload-"));
+    urlFile = path.join(dir, "specs.txt");
+    process.env.EBAY_API_DOC_URL_FILE = urlFile;
+    for (const title of ["Browse API", "Inventory API"]) {
+      fs.writeFileSync(path.join(dir, `${title.split(" ")[0]}.json`), JSON.stringify({ ...inventorySpec, info: { title, version: "v1" } }));
+    }
+    fs.writeFileSync(urlFile, `${path.join(dir, "Browse.json")}\n${path.join(dir, "Inventory.json")}\n`);
+  });
+
+  afterEach(async () => {
+    fs.writeFileSync(urlFile, "");
+    await loadOpenApiSpecs();
+    fs.rmSync(dir, { recursive: true, force: true });
+    delete process.env.EBAY_API_DOC_URL_FILE;
+  });
+
+  it("keeps the loaded specs whose source fails to load, and drops the ones removed from the url file", async () => {
+    await loadOpenApiSpecs();
+    const browse = getRegisteredSpec("Browse API")!.doc;
+
+    // a spec file caught mid-save, then the url file replaced on save
+    fs.writeFileSync(path.join(dir, "Browse.json"), "{\"openapi\": ");
+    await loadOpenApiSpecs();
+    expect(getRegisteredSpec("Browse API")?.doc).toBe(browse);
+    fs.rmSync(urlFile);
+    await loadOpenApiSpecs();
+    expect(getRegisteredSpecs().map(spec => spec.title).sort()).toEqual(["Browse API", "Inventory API"]);
+
+    fs.writeFileSync(urlFile, `${path.join(dir, "Browse.json")}\n`);
+    await loadOpenApiSpecs();
+    expect(getRegisteredSpecs().map(spec => spec.title)).toEqual(["Browse API"]);
+  });
+});
+
+describe("production write operations", () => {
+  const offerSpec: OpenAPIV3.Document = {
+    openapi: "3.0.0",
+    info: { title: "Offer API", version: "v1" },
+    servers: [{ url: "https://api.ebay.com/sell/inventory/v1" }],
+    paths: {
+      "/offer/{offerId}": {
+        get: { operationId: "getOffer", parameters: [{ name: "offerId", in: "path", required: true, schema: { type: "string" } }], responses: {} },
+        delete: { operationId: "deleteOffer", parameters: [{ name: "offerId", in: "path", required: true, schema: { type: "string" } }], responses: {} },
+      },
+      "/offer/{offerId}/publish": {
+        post: { operationId: "publishOffer", parameters: [{ name: "offerId", in: "path", required: true, schema: { type: "string" } }], responses: {} },
+      },
+    },
+  };
+  let client: Client;
+
+  /**
+   * Connect a client, with elicitation when an answer to the confirmation request is given
+   */
+  async function connectClient(answer?: ElicitResult): Promise<Client> {
+    const server = new McpServer({ name: "test-server", version: "1.0.0" });
+    await registerOpenApiTools(server, { clientToken: "test-token" });
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const connected = new Client({ name: "test-client", version: "1.0.0" }, { capabilities: answer ? { elicitation: {} } : {} });
+    if (answer) {
+      connected.setRequestHandler(ElicitRequestSchema, () => answer);
+    }
+    await connected.connect(clientTransport);
+    return connected;
+  }
+
+  beforeEach(() => {
+    process.env.EBAY_PRODUCTION_WRITE_ALLOWLIST = "publishOffer";
+    replaceConfigSpecs([offerSpec]);
+    httpClient.request.mockResolvedValue({ status: 200, headers: {}, data: { listingId: "L1" } });
+  });
+
+  afterEach(async () => {
+    await client.close();
+    replaceConfigSpecs([]);
+    httpClient.request.mockReset();
+    delete process.env.EBAY_PRODUCTION_WRITE_ALLOWLIST;
+  });
+
+  it("registers read operations and allowlisted write operations only", async () => {
+    client = await connectClient();
+
+    const names = (await client.listTools()).tools.map(tool => tool.name);
+
+    expect(names).toEqual(expect.arrayContaining(["getOffer", "publishOffer"]));
+    expect(names).not.toContain("deleteOffer");
+  });
+
+  it("refuses the call when the client can't ask for confirmation", async () => {
+    client = await connectClient();
+
+    const result = await client.callTool({ name: "publishOffer", arguments: { offerId: "O1" } });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toContain("the client does not support elicitation");
+    expect(httpClient.request).not.toHaveBeenCalled();
+  });
+
+  it.each<[string, ElicitResult]>([
+    ["declined", { action: "decline" }],
+    ["cancelled", { action: "cancel" }],
+    ["accepted without confirming", { action: "accept", content: { confirm: false } }],
+  ])("refuses the call when the confirmation is %s", async (_case, answer) => {
+    client = await connectClient(answer);
+
+    const result = await client.callTool({ name: "publishOffer", arguments: { offerId: "O1" } });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toContain("The user did not confirm operation publishOffer");
+    expect(httpClient.request).not.toHaveBeenCalled();
+  });
+
+  it("sends the request once the user confirms", async () => {
+    client = await connectClient({ action: "accept", content: { confirm: true } });
+
+    const result = await client.callTool({ name: "publishOffer", arguments: { offerId: "O1" } });
+
+    expect(result.isError).toBeFalsy();
+    expect(httpClient.request).toHaveBeenCalledWith(expect.objectContaining({
+      method: "post",
+      url: "https://api.ebay.com/sell/inventory/v1/offer/O1/publish",
+    }));
+  });
+});
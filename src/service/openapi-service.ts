@@ -1,17 +1,31 @@
 /**
  * OpenAPI service for registering tools with MCP server
  */
-import { type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { type McpServer, type RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import axios, { type AxiosRequestConfig } from "axios";
 import { type OpenAPIV3 } from "openapi-types";
 import { type RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
-import { type ServerNotification, type ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { type CallToolResult, type ServerNotification, type ServerRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z, type ZodTypeAny } from "zod";
-import axios from "axios";
 import util from "util";
-import { RECALL_SPEC_BY_PROMPT_URL, RECALL_SPEC_WITH_FIELD_URL, SUPPORTED_CALLING_METHODS, USER_ENVIRONMENT } from "../constant/constants.js";
-import { getOpenApiDocumentsFromConfigFile, queryAndParseOpenApiDoc, buildOperationSchema, buildZodSchema } from "../helper/openapi-helper.js";
-import { validateRequestParameters as validateRequestParametersFromHelper } from "../helper/validation-helper.js";
+import { RECALL_SPEC_BY_PROMPT_URL, RECALL_SPEC_WITH_FIELD_URL, USER_ENVIRONMENT, WRITE_CONFIRMATION_TIMEOUT_MS } from "../constant/constants.js";
+import { getOpenApiDocumentsFromConfigFile, queryAndParseOpenApiDoc, buildOperationSchema, buildOutputSchema, buildZodSchema } from "../helper/openapi-helper.js";
+import { validateRequestParameters as validateRequestParametersFromHelper, findMissingScopes, formatMissingScopes, parseApiPathFromUrl, validateOperationInput, validatePath, validateResponse } from "../helper/validation-helper.js";
+import { getGrantedScopes, type EbayCredentials } from "../helper/auth-helper.js";
+import { clearSpecCache } from "../helper/spec-cache.js";
+import { getRegisteredSpecs, onSpecRegistryChange, replaceConfigSpecs } from "../helper/spec-registry.js";
+import { hasSearchableOperations, searchOperations } from "../helper/search-index.js";
+import { isPaginatedOperation, PAGINATION_INPUT_KEY, PAGINATION_SCHEMA, requestAllPages, type PaginationOptions, type PaginationSummary } from "../helper/pagination-helper.js";
+import { fitsOutputSize, formatResponse, OUTPUT_INPUT_KEY, OUTPUT_OPTIONS_SCHEMA, projectResponse, type OutputOptions } from "../helper/response-formatter.js";
+import { registerAuthTools } from "./auth-service.js";
+import { registerQuotaTools } from "./quota-service.js";
+import { registerAuditTools } from "./audit-service.js";
+import { registerOpenApiResources } from "./resource-service.js";
 import { buildHeadersFromInput, buildFinalUrl, replaceDomainNameByEnvironment, formatAxiosError, buildBaseUrlFromOpenApi, prepareRequestData } from "../helper/http-helper.js";
+import { requestWithRetry, type RetryStats } from "../helper/retry-helper.js";
+import { runWithAuditContext } from "../helper/audit-log.js";
+import { DRY_RUN_INPUT_KEY, DRY_RUN_SCHEMA, previewRequest } from "../helper/request-preview.js";
+import { isOperationAllowed, requiresConfirmation } from "../helper/write-policy.js";
 
 const QUERY_API_TOOL_DISCRIPTION = `eBay Public API Search Tool
 
@@ -37,6 +51,20 @@ Input required:
 Output format:
 - List of OpenAPI specifications for related eBay APIs
 - Each spec includes endpoint definitions, request/response schemas, and authentication requirements`;
+const LOCAL_QUERY_API_TOOL_DESCRIPTION = `eBay API Operation Search Tool
+
+Purpose: Searches the locally loaded eBay OpenAPI specifications for operations matching a description.
+
+When to use:
+- When you need to find which eBay API operation fulfills a user request
+- Before calling an operation whose name or parameters you don't know yet
+
+Input required:
+- Search query with keywords describing the desired functionality (e.g. "search items by keyword", "get order")
+
+Output format:
+- Ranked list of matching operations, each with spec title, operationId, HTTP method, path and summary
+- Call the tool named after the operationId, or call_ebay_api with the specTitle and operationId`;
 const INVOKE_API_TOOL_DISCRIPTION = `eBay Public API Invocation Tool
 
 Purpose: Executes actual calls to eBay's public APIs using known OpenAPI specifications to retrieve real data and fulfill user requests.
@@ -66,52 +94,117 @@ Output format:
 - Error details and troubleshooting guidance if the call fails
 
 Error handling:
-- If the tool returns authentication and authorization issues, stop the tool and ask user to use token with required auth scopes.
+- If the tool returns authentication and authorization issues, stop the tool and ask user to use token with required auth scopes. Seller APIs need a user token: if get_ebay_user_consent_url is available, use it to let the user grant access.
 - If the tool returns an error, analyze the error message and adjust the request parameters according to the API specification, and retry. 
 `;
 
 
 /**
- * Register OpenAPI tools with MCP server
+ * Response of an API call as reported by the tools
  */
-export async function registerOpenApiTools(server: McpServer): Promise<void> {
-  // Load OpenAPI document
-  const openapis = await getOpenApiDocumentsFromConfigFile();
-  for (const doc of openapis) {
-    registerOpenApiDynamicTools(server, doc);
-  }
-  registerCustomTools(server);
+interface ApiResponse {
+  data: unknown;
+  status: number;
+  contentType?: string;
+  pagination?: PaginationSummary;
+  retryStats?: RetryStats;
+}
+
+// documents loaded from the user config file by url or path, kept for the specs that fail to load on a reload
+let loadedDocs = new Map<string, OpenAPIV3.Document>();
+
+/**
+ * Load the OpenAPI documents from the user config file into the spec registry, replacing the ones loaded before.
+ * Servers keep their tools in sync with the registry, so this also reloads the specs after the config file changed.
+ */
+export async function loadOpenApiSpecs(): Promise<OpenAPIV3.Document[]> {
+  loadedDocs = await getOpenApiDocumentsFromConfigFile(loadedDocs);
+  const openapis = [...loadedDocs.values()];
+  replaceConfigSpecs(openapis);
+  return openapis;
+}
+
+/**
+ * Register OpenAPI tools with MCP server, every eBay call they make is authorized with the given credentials
+ */
+export async function registerOpenApiTools(server: McpServer, credentials: EbayCredentials): Promise<void> {
+  registerConfigSpecTools(server, credentials);
+  registerCustomTools(server, credentials);
+  registerAuthTools(server, credentials);
+  registerQuotaTools(server, credentials);
+  registerAuditTools(server, credentials);
+  registerOpenApiResources(server);
   registerPrompts(server);
 }
 
 /**
- * register OpenAPI tools dynamically based on the OpenAPI document
+ * Register tools for the specs loaded from the config file, and keep them in sync with the spec registry:
+ * tools of removed or updated specs are removed, tools of new or updated specs are registered.
+ * The SDK notifies connected clients with tools/list_changed.
+ */
+function registerConfigSpecTools(server: McpServer, credentials: EbayCredentials): void {
+  const registered = new Map<string, { doc: OpenAPIV3.Document; tools: RegisteredTool[] }>();
+  const syncTools = () => {
+    const configSpecs = getRegisteredSpecs().filter(spec => spec.source === "config");
+    for (const [title, entry] of registered) {
+      if (configSpecs.find(spec => spec.title === title)?.doc !== entry.doc) {
+        entry.tools.forEach(tool => tool.remove());
+        registered.delete(title);
+      }
+    }
+    for (const spec of configSpecs) {
+      if (!registered.has(spec.title)) {
+        registered.set(spec.title, { doc: spec.doc, tools: registerOpenApiDynamicTools(server, spec.doc, credentials) });
+      }
+    }
+  };
+  syncTools();
+
+  const removeListener = onSpecRegistryChange(syncTools);
+  // servers of closed HTTP sessions must not keep listening
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    removeListener();
+    previousOnClose?.();
+  };
+}
+
+/**
+ * register OpenAPI tools dynamically based on the OpenAPI document, returns the registered tools
  */
-function registerOpenApiDynamicTools(server: McpServer, openapi: OpenAPIV3.Document): void {
+function registerOpenApiDynamicTools(server: McpServer, openapi: OpenAPIV3.Document, credentials: EbayCredentials): RegisteredTool[] {
   const baseUrl = buildBaseUrlFromOpenApi(openapi);
 
-  Object.entries(openapi.paths || {})
+  return Object.entries(openapi.paths || {})
     .filter(([_, pathItem]) => pathItem !== undefined)
-    .forEach(([path, pathItem]) => registerPathOperations(server, baseUrl, path, pathItem!));
+    .flatMap(([path, pathItem]) => registerPathOperations(server, baseUrl, path, pathItem!, openapi.security, credentials));
 }
 
 
 /**
- * Register tools for operations in a specific path
+ * Register tools for operations in a specific path, in production only read operations and allowlisted write operations.
+ * An operation whose tool name is already taken (e.g. by another spec) is skipped.
  */
 function registerPathOperations(
   server: McpServer,
   baseUrl: string,
   path: string,
   pathItem: OpenAPIV3.PathItemObject,
-): void {
-  const supportedMethods = Object.keys(pathItem)
-    .filter(method => SUPPORTED_CALLING_METHODS[USER_ENVIRONMENT].includes(method));
+  docSecurity: OpenAPIV3.SecurityRequirementObject[] | undefined,
+  credentials: EbayCredentials,
+): RegisteredTool[] {
+  const apiPath = parseApiPathFromUrl(baseUrl + path);
 
-  supportedMethods.forEach(method => {
+  return Object.keys(pathItem).flatMap(method => {
     const operation = pathItem[method as keyof typeof pathItem] as OpenAPIV3.OperationObject;
-    if (operation && operation.operationId) {
-      registerOperation(server, baseUrl, path, method, operation);
+    if (!operation || !operation.operationId || !isOperationAllowed(method, operation.operationId, apiPath)) {
+      return [];
+    }
+    try {
+      return [registerOperation(server, baseUrl, path, method, operation, docSecurity, credentials)];
+    } catch (error) {
+      console.error(`Failed to register tool ${operation.operationId}: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
     }
   });
 }
@@ -125,108 +218,186 @@ function registerOperation(
   path: string,
   method: string,
   operation: OpenAPIV3.OperationObject,
-): void {
+  docSecurity: OpenAPIV3.SecurityRequirementObject[] | undefined,
+  credentials: EbayCredentials,
+): RegisteredTool {
+  // operation level security overrides the document level one
+  const security = operation.security ?? docSecurity;
   const properties = buildOperationSchema(operation);
   const zodProperties = buildZodSchema(properties);
-  server.tool(
-    operation.operationId || "unknownOperation",
-    operation.description || "No description",
-    zodProperties,
-    async (input:Record<string, unknown>, _extra) => {
+  // tool options next to the operation parameters, list and search operations can also fetch every page in one call
+  const toolOptions: Record<string, ZodTypeAny> = { [OUTPUT_INPUT_KEY]: OUTPUT_OPTIONS_SCHEMA, [DRY_RUN_INPUT_KEY]: DRY_RUN_SCHEMA };
+  if (isPaginatedOperation(operation)) {
+    toolOptions[PAGINATION_INPUT_KEY] = PAGINATION_SCHEMA;
+  }
+  // an option is left out when a parameter of the operation already uses its key
+  const optionKeys = Object.keys(toolOptions).filter(key => !(key in zodProperties));
+  optionKeys.forEach(key => {
+    zodProperties[key] = toolOptions[key];
+  });
+  // typed results for clients, from the 2xx response schema
+  const outputSchema = buildOutputSchema(operation);
+  const toolName = operation.operationId || "unknownOperation";
+  return server.registerTool(
+    toolName,
+    {
+      description: operation.description || "No description",
+      // unknown keys are kept so they can be reported instead of silently dropped
+      inputSchema: z.object(zodProperties).passthrough(),
+      outputSchema,
+    },
+    (toolInput:Record<string, unknown>, extra) => runWithAuditContext({ tool: toolName, operationId: operation.operationId }, async () => {
+      const retryStats: RetryStats = { attempts: 0, retries: 0 };
       try {
-        const { resolvedPath, headers, params, data } = prepareRequestData(input, operation, path);
+        const input = { ...toolInput };
+        const options: Record<string, unknown> = {};
+        optionKeys.forEach(key => {
+          options[key] = input[key];
+          delete input[key];
+        });
+        const pagination = options[PAGINATION_INPUT_KEY] as PaginationOptions | undefined;
+        const output = options[OUTPUT_INPUT_KEY] as OutputOptions | undefined;
+        const dryRun = options[DRY_RUN_INPUT_KEY] === true;
+        const missingScopes = findMissingScopes(security, getGrantedScopes(credentials, security));
+        if (missingScopes.length > 0) {
+          return buildValidationFailedResult([formatMissingScopes(missingScopes)]);
+        }
+        const { resolvedPath, headers, params, data, pathParams, unknownKeys } = await prepareRequestData(input, operation, path, credentials, !dryRun, security);
+
+        // Validate inputs against the operation, the same way call_ebay_api does
+        const errors: string[] = [];
+        if (unknownKeys.length > 0) {
+          errors.push(`Unknown input parameters: ${unknownKeys.join(", ")}`);
+        }
+        validateOperationInput(operation, {
+          urlVariables: pathParams,
+          urlQueryParams: params,
+          headers,
+          requestBody: data as Record<string, unknown> | undefined,
+        }, errors);
+        if (errors.length > 0) {
+          return buildValidationFailedResult(errors);
+        }
+
         const url = baseUrl + resolvedPath;
-        const resp = await axios.request({
+        const requestConfig = {
           url,
           method,
           headers,
           params,
           data,
-          httpsAgent: new (await import("https")).Agent({
-            rejectUnauthorized: false,
-          })
-        });
-        return {
-          content: [
-            { type: "text" as const, text: typeof resp.data === "string" ? resp.data : JSON.stringify(resp.data, null, 2) },
-          ],
         };
+        if (dryRun) {
+          return buildDryRunResult(requestConfig, outputSchema);
+        }
+        if (requiresConfirmation(method)) {
+          const refusal = await confirmRequest(server, requestConfig, operation.operationId, extra);
+          if (refusal) {
+            return refusal;
+          }
+        }
+        const response = await sendApiRequest(requestConfig, credentials, operation, pagination, retryStats);
+        return buildResponseResult(response, operation, output, outputSchema);
       } catch (error) {
-        return {
-          content: [
-            { type: "text" as const, text: `Error in invokeOpenAPI tool: ${formatAxiosError(error)}` },
-          ],
-          isError: true,
-        };
+        return buildApiErrorResult(error, retryStats, operation);
       }
-    },
+    }),
   );
 }
 
 /**
  * Register custom API tools to enable interaction with eBay OpenAPI services
- * This function registers two primary tools:
+ * This function registers the primary tools:
  * 1. queryAPI - For discovering API specifications
  * 2. invokeAPI - For executing API calls with validation
+ * 3. clearSpecCache - For dropping the specs cached by invokeAPI
  */
-function registerCustomTools(server: McpServer): void {
-  registerQueryApiTool(server);
-  registerInvokeApiTool(server);
+function registerCustomTools(server: McpServer, credentials: EbayCredentials): void {
+  registerQueryApiTool(server, credentials);
+  registerInvokeApiTool(server, credentials);
+  registerClearSpecCacheTool(server);
 }
 
 /**
- * Register a tool for querying API specifications based on natural language prompts
- * Only registered when no custom API doc URL file is provided
+ * Register a tool for querying API specifications based on natural language prompts.
+ * Searches the remote spec search endpoint, or the locally loaded specs when custom API docs
+ * are configured or EBAY_API_SEARCH_MODE is "local"
  */
-function registerQueryApiTool(server: McpServer): void {
-  const hasCustomDoc = process.env.EBAY_API_DOC_URL_FILE;
-  if (hasCustomDoc) {return;}
+function registerQueryApiTool(server: McpServer, credentials: EbayCredentials): void {
+  const searchMode = process.env.EBAY_API_SEARCH_MODE || (process.env.EBAY_API_DOC_URL_FILE ? "local" : "remote");
 
   server.tool(
     "query_ebay_api",
-    QUERY_API_TOOL_DISCRIPTION,
+    searchMode === "local" ? LOCAL_QUERY_API_TOOL_DESCRIPTION : QUERY_API_TOOL_DISCRIPTION,
     { prompt: z.string() },
-    async (input) => {
+    (input) => runWithAuditContext({ tool: "query_ebay_api", kind: "spec_lookup" }, async () => {
+      if (searchMode === "local") {
+        return searchLocalSpecs(input.prompt);
+      }
       try {
         const url = util.format(RECALL_SPEC_BY_PROMPT_URL, encodeURIComponent(input.prompt));
-        const resp = await axios.get(url, {
-          headers: buildHeadersFromInput(undefined, false),
-          httpsAgent: new (await import("https")).Agent({
-            rejectUnauthorized: false,
-          }),
-        });
-        return {
-          content: [
-              { type: "text" as const, text: resp.data ? (typeof resp.data === "string" ? resp.data : JSON.stringify(resp.data, null, 2)) : "No response body" }
-          ],
-        };
+        const resp = await requestWithRetry({
+          url,
+          method: "get",
+          headers: await buildHeadersFromInput(undefined, false, credentials),
+        }, credentials);
+        return buildResponseResult({ data: resp.data, status: resp.status });
       } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (hasSearchableOperations()) {
+          console.error(`Remote spec search failed, falling back to local search: ${errorMessage}`);
+          return searchLocalSpecs(input.prompt);
+        }
         return {
           content: [
-            { type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` },
+            { type: "text", text: `Error: ${errorMessage}` },
           ],
           isError: true,
         };
       }
-    },
+    }),
   );
 }
 
+/**
+ * Search the locally loaded specs and return compact matches
+ */
+function searchLocalSpecs(prompt: string): CallToolResult {
+  const matches = searchOperations(prompt);
+  if (matches.length === 0) {
+    return {
+      content: [
+        { type: "text" as const, text: "No matching operations found in the loaded OpenAPI specifications" },
+      ],
+    };
+  }
+  return {
+    content: [
+      { type: "text" as const, text: formatResponse({ matches }) },
+    ],
+  };
+}
+
 /**
  * Register a tool for executing API calls with proper validation and error handling
  */
-function registerInvokeApiTool(server: McpServer): void {
+function registerInvokeApiTool(server: McpServer, credentials: EbayCredentials): void {
   server.tool(
     "call_ebay_api",
     INVOKE_API_TOOL_DISCRIPTION,
     getInvokeApiSchema(),
-    async (input, _extra: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+    (input, extra: RequestHandlerExtra<ServerRequest, ServerNotification>) => runWithAuditContext({ tool: "call_ebay_api", operationId: input.operationId }, async () => {
+      const retryStats: RetryStats = { attempts: 0, retries: 0 };
+      let operation: OpenAPIV3.OperationObject | undefined;
       try {
-        // Build headers
-        const headers = buildHeadersFromInput(input.headers, true);
         // query and parse apiSpec by specTitle and operationId
-        const openApiDoc = await queryAndParseOpenApiDoc(input.specTitle, input.operationId, RECALL_SPEC_WITH_FIELD_URL);
+        const openApiDoc = await queryAndParseOpenApiDoc(input.specTitle, input.operationId, RECALL_SPEC_WITH_FIELD_URL, credentials);
         const replacedDomainUrl = replaceDomainNameByEnvironment(input.url);
+        const { specPathItem } = validatePath(openApiDoc, replacedDomainUrl);
+        operation = specPathItem?.[input.method.toLowerCase() as keyof typeof specPathItem] as OpenAPIV3.OperationObject | undefined;
+        const security = operation?.security ?? openApiDoc.security;
+        // Build headers, with the marketplace and locale defaults for the headers the operation declares, dry runs need no token
+        const headers = await buildHeadersFromInput(input.headers, true, credentials, operation, input.dryRun !== true, security);
 
         // Validate req parameters against OpenAPI spec
         const reqParamValidation = validateRequestParametersFromHelper(replacedDomainUrl, openApiDoc, input.method, {
@@ -234,46 +405,229 @@ function registerInvokeApiTool(server: McpServer): void {
           urlQueryParams: input.urlQueryParams,
           headers,
           requestBody: input.requestBody,
+          grantedScopes: getGrantedScopes(credentials, security),
         });
         if (!reqParamValidation.isValid) {
-          return {
-            content: [
-              { type: "text" as const, text: "Request validation failed:" },
-              { type: "text" as const, text: reqParamValidation.errors.join("\n") },
-            ],
-            isError: true,
-          };
+          return buildValidationFailedResult(reqParamValidation.errors);
         }
 
         // Make the API request
-        const resp = await axios.request({
+        const requestConfig = {
           url : buildFinalUrl(replacedDomainUrl, input.urlVariables),
           method: input.method,
           headers,
           params: input.urlQueryParams,
           data : input.requestBody,
-          httpsAgent: new (await import("https")).Agent({
-            rejectUnauthorized: false,
-          }),
-        });
-
-        return {
-          content: [
-            { type: "text" as const, text: resp.data ? (typeof resp.data === "string" ? resp.data : JSON.stringify(resp.data, null, 2)) : "No response body" },
-          ],
         };
+        if (input.dryRun === true) {
+          return buildDryRunResult(requestConfig);
+        }
+        if (requiresConfirmation(input.method)) {
+          const refusal = await confirmRequest(server, requestConfig, input.operationId, extra);
+          if (refusal) {
+            return refusal;
+          }
+        }
+        const response = await sendApiRequest(requestConfig, credentials, operation, input.pagination as PaginationOptions | undefined, retryStats);
+
+        return buildResponseResult(response, operation, input.output as OutputOptions | undefined);
       } catch (error) {
-        return {
-          content: [
-            { type: "text" as const, text: `Error in invokeOpenAPI tool: ${formatAxiosError(error)}` },
-          ],
-          isError: true,
-        };
+        return buildApiErrorResult(error, retryStats, operation);
       }
+    }),
+  );
+}
+
+/**
+ * Register a tool for clearing the OpenAPI specs cached by call_ebay_api
+ */
+function registerClearSpecCacheTool(server: McpServer): void {
+  server.tool(
+    "clear_ebay_spec_cache",
+    "Clear the OpenAPI specs cached by call_ebay_api, so the next call downloads the latest spec. Use it when validation looks out of date with the live API.",
+    async () => {
+      const count = clearSpecCache();
+      return {
+        content: [
+          { type: "text" as const, text: `Cleared ${count} cached OpenAPI specs` },
+        ],
+      };
     },
   );
 }
 
+/**
+ * Ask the user to confirm a write operation through elicitation, showing what will be sent.
+ * Returns the tool result refusing the call when the user does not confirm or the client cannot ask.
+ */
+async function confirmRequest(
+  server: McpServer,
+  requestConfig: AxiosRequestConfig,
+  operationId: string | undefined,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+): Promise<CallToolResult | undefined> {
+  const operationName = operationId || "unknownOperation";
+  if (!server.server.getClientCapabilities()?.elicitation) {
+    return buildRefusedResult(`Operation ${operationName} changes data in the ${USER_ENVIRONMENT} environment and needs the user's confirmation, but the client does not support elicitation`);
+  }
+  const preview = previewRequest(requestConfig);
+  const body = preview.body === undefined || preview.body === null ? "" : `\n\nBody:\n${formatResponse(preview.body)}`;
+  const result = await server.server.elicitInput({
+    message: `Operation ${operationName} changes data in the ${USER_ENVIRONMENT} environment. Send this request to eBay?\n\n${preview.method} ${preview.url}${body}`,
+    requestedSchema: {
+      type: "object",
+      properties: {
+        confirm: { type: "boolean", title: "Send the request", description: `Send ${preview.method} ${preview.url}` },
+      },
+      required: ["confirm"],
+    },
+  }, { relatedRequestId: extra.requestId, timeout: WRITE_CONFIRMATION_TIMEOUT_MS });
+  if (result.action === "accept" && result.content?.confirm === true) {
+    return undefined;
+  }
+  console.error(`Operation ${operationName} was not confirmed by the user`);
+  return buildRefusedResult(`The user did not confirm operation ${operationName}, the request was not sent`);
+}
+
+/**
+ * Send the API request with retries, following every page when pagination options are given
+ */
+async function sendApiRequest(
+  requestConfig: AxiosRequestConfig,
+  credentials: EbayCredentials,
+  operation: OpenAPIV3.OperationObject | undefined,
+  pagination: PaginationOptions | undefined,
+  retryStats: RetryStats,
+): Promise<ApiResponse> {
+  if (pagination) {
+    return { ...await requestAllPages(requestConfig, credentials, operation, pagination, retryStats), retryStats };
+  }
+  const resp = await requestWithRetry(requestConfig, credentials, retryStats);
+  return { data: resp.data, status: resp.status, contentType: resp.headers?.["content-type"] as string | undefined, retryStats };
+}
+
+/**
+ * Build the tool result of a failed API call, telling how many attempts were made when it was retried.
+ * When enabled, error responses eBay sent are checked against the operation's documented responses too.
+ */
+function buildApiErrorResult(error: unknown, retryStats: RetryStats, operation?: OpenAPIV3.OperationObject): CallToolResult {
+  const content: CallToolResult["content"] = [
+    { type: "text" as const, text: `Error in invokeOpenAPI tool: ${formatAxiosError(error)}` },
+  ];
+  if (retryStats.retries > 0) {
+    content.push({ type: "text" as const, text: `Failed after ${retryStats.attempts} attempts` });
+  }
+  if (axios.isAxiosError(error) && error.response) {
+    const { status, headers, data } = error.response;
+    content.push(...buildResponseWarnings(operation, { status, contentType: headers?.["content-type"] as string | undefined, body: data }));
+  }
+  return { content, isError: true };
+}
+
+/**
+ * Check a response against the operation's spec when EBAY_VALIDATE_RESPONSES is enabled,
+ * the schema drift warnings are logged and returned as tool result content
+ */
+function buildResponseWarnings(
+  operation: OpenAPIV3.OperationObject | undefined,
+  response: { status: number; contentType?: string; body: unknown },
+): CallToolResult["content"] {
+  if (!operation || process.env.EBAY_VALIDATE_RESPONSES !== "true") {
+    return [];
+  }
+  const warnings = validateResponse(operation, response);
+  if (warnings.length === 0) {
+    return [];
+  }
+  console.error(`Response of ${operation.operationId} does not match the OpenAPI spec:\n${warnings.join("\n")}`);
+  return [{ type: "text" as const, text: `Response schema warnings (the response does not match the OpenAPI spec):\n${warnings.join("\n")}` }];
+}
+
+/**
+ * Build the tool result of an API response formatted with the output options,
+ * paginated calls are followed by the pagination summary and, when enabled, schema drift warnings are appended.
+ * Tools with an output schema also return the (projected) response as structured content.
+ */
+function buildResponseResult(
+  response: ApiResponse,
+  operation?: OpenAPIV3.OperationObject,
+  output?: OutputOptions,
+  outputSchema?: z.AnyZodObject,
+): CallToolResult {
+  const { data, pagination } = response;
+  const content: CallToolResult["content"] = [
+    { type: "text" as const, text: formatResponse(data, output) },
+  ];
+  if (pagination) {
+    const truncation = pagination.truncated ? ", truncated: more results are available, narrow the query or raise maxPages/maxItems" : "";
+    content.push({ type: "text" as const, text: `Fetched ${pagination.pagesFetched} pages, ${pagination.itemCount} items${pagination.total !== undefined ? ` of ${pagination.total}` : ""}${truncation}` });
+  }
+  if (response.retryStats && response.retryStats.retries > 0) {
+    content.push({ type: "text" as const, text: `Succeeded after ${response.retryStats.attempts} attempts (${response.retryStats.retries} retried after throttling or transient failures)` });
+  }
+  content.push(...buildResponseWarnings(operation, { status: response.status, contentType: response.contentType, body: data }));
+  if (!outputSchema) {
+    return { content };
+  }
+  const projected = projectResponse(data, output);
+  // empty bodies (e.g. 204), responses of the wrong type and responses over the size limit still need valid
+  // structured content: it is left empty (the output schema has no required fields) and the text content tells why
+  let emptyReason: string | undefined;
+  if (!projected || typeof projected !== "object") {
+    emptyReason = "the response has no JSON object body";
+  } else if (!outputSchema.safeParse(projected).success) {
+    emptyReason = "the response does not match the output schema of the operation";
+  } else if (!fitsOutputSize(projected, output)) {
+    emptyReason = "the response exceeds the maximum output size, use the output options (fields, arrayLimit) to narrow it";
+  }
+  if (emptyReason) {
+    content.push({ type: "text" as const, text: `Structured content is empty: ${emptyReason}` });
+    return { content, structuredContent: {} };
+  }
+  return { content, structuredContent: projected as Record<string, unknown> };
+}
+
+/**
+ * Build the tool result of a dry run, describing the validated request instead of sending it.
+ * Tools with an output schema return empty structured content, the preview is not a response of the operation.
+ */
+function buildDryRunResult(requestConfig: AxiosRequestConfig, outputSchema?: z.AnyZodObject): CallToolResult {
+  const content: CallToolResult["content"] = [
+    { type: "text" as const, text: "Dry run, the request passed validation and was not sent:" },
+    { type: "text" as const, text: formatResponse(previewRequest(requestConfig)) },
+  ];
+  if (!outputSchema) {
+    return { content };
+  }
+  content.push({ type: "text" as const, text: "Structured content is empty: a dry run has no response" });
+  return { content, structuredContent: {} };
+}
+
+/**
+ * Build the tool result returned when a write operation is not confirmed
+ */
+function buildRefusedResult(message: string): CallToolResult {
+  return {
+    content: [
+      { type: "text" as const, text: message },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Build the tool result returned when a request fails validation before it is sent
+ */
+function buildValidationFailedResult(errors: string[]): CallToolResult {
+  return {
+    content: [
+      { type: "text" as const, text: "Request validation failed:" },
+      { type: "text" as const, text: errors.join("\n") },
+    ],
+    isError: true,
+  };
+}
+
 /**
  * Define the schema for invokeAPI tool parameters
  */
@@ -281,12 +635,15 @@ function getInvokeApiSchema(): Record<string, ZodTypeAny> {
   return {
     url: z.string().describe("The complete request API URL, url and basePath need to be put in together. don't replace path variables, maintain variables such as {item_id}, the variable will be replaced by urlVariables input in tool."),
     method: z.string().describe("The request API method (GET, POST, PUT, DELETE, ...)"),
-    headers: z.record(z.string(), z.array(z.string())).optional().describe("The API header params"),
+    headers: z.record(z.string(), z.array(z.string())).optional().describe("The API header params, marketplace and locale headers the operation declares (X-EBAY-C-MARKETPLACE-ID, Accept-Language, Content-Language, X-EBAY-C-ENDUSERCTX) default to the configured values unless given here"),
     urlVariables: z.record(z.string(), z.any()).optional().describe("The API path variables"),
     urlQueryParams: z.record(z.string(), z.string()).optional().describe("The API query parameters"),
     requestBody: z.record(z.string(), z.any()).optional().describe("The API request body"),
     specTitle: z.string().describe("The OpenAPI spec title from info.title"),
     operationId: z.string().describe("The OpenAPI operationId"),
+    [PAGINATION_INPUT_KEY]: PAGINATION_SCHEMA,
+    [OUTPUT_INPUT_KEY]: OUTPUT_OPTIONS_SCHEMA,
+    [DRY_RUN_INPUT_KEY]: DRY_RUN_SCHEMA,
   };
 }
 
@@ -0,0 +1,58 @@
+/**
+ * Quota service for registering the quota status tool with MCP server
+ */
+import { type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { RATE_LIMIT_URL, USER_ENVIRONMENT } from "../constant/constants.js";
+import { runWithAuditContext } from "../helper/audit-log.js";
+import { type EbayCredentials } from "../helper/auth-helper.js";
+import { buildHeadersFromInput, formatAxiosError } from "../helper/http-helper.js";
+import { getLocalUsage } from "../helper/rate-limiter.js";
+import { formatResponse } from "../helper/response-formatter.js";
+import { requestWithRetry } from "../helper/retry-helper.js";
+
+const QUOTA_STATUS_TOOL_DESCRIPTION = `eBay API Quota Status Tool
+
+Purpose: Reports how many eBay API calls this server made today and how much of the application's call limits remain.
+
+When to use:
+- Before running many API calls in a loop
+- When an API call was rejected because a daily call budget is used up or eBay returned 429
+
+Output format:
+- localUsage: calls made by this server today per API family, with the configured daily budget and rate limit
+- ebayRateLimits: the call limits eBay reports for the application, with remaining calls and reset time per API resource`;
+
+/**
+ * Register the quota status tool
+ */
+export function registerQuotaTools(server: McpServer, credentials: EbayCredentials): void {
+  server.tool(
+    "get_ebay_quota_status",
+    QUOTA_STATUS_TOOL_DESCRIPTION,
+    {
+      apiContext: z.string().optional().describe("Only report eBay limits of this API context, e.g. buy, sell, commerce, developer"),
+      apiName: z.string().optional().describe("Only report eBay limits of this API, e.g. browse, fulfillment"),
+    },
+    (input) => runWithAuditContext({ tool: "get_ebay_quota_status" }, async () => {
+      const status: Record<string, unknown> = { localUsage: getLocalUsage() };
+      try {
+        const resp = await requestWithRetry({
+          url: RATE_LIMIT_URL[USER_ENVIRONMENT],
+          method: "get",
+          headers: await buildHeadersFromInput(undefined, true, credentials),
+          params: { api_context: input.apiContext, api_name: input.apiName },
+        }, credentials);
+        status.ebayRateLimits = (resp.data as { rateLimits?: unknown } | undefined)?.rateLimits ?? [];
+      } catch (error) {
+        // local usage is still useful when eBay's rate limit endpoint can't be reached
+        status.ebayRateLimitsError = formatAxiosError(error);
+      }
+      return {
+        content: [
+          { type: "text" as const, text: formatResponse(status) },
+        ],
+      };
+    }),
+  );
+}
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResourceListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { type OpenAPIV3 } from "openapi-types";
+import { replaceConfigSpecs } from "../helper/spec-registry.js";
+import { registerOpenApiResources } from "./resource-service.js";
+
+function buildSpec(title: string, operationIds: string[]): OpenAPIV3.Document {
+  return {
+    openapi: "3.0.0",
+    info: { title, version: "v1" },
+    paths: Object.fromEntries(operationIds.map(operationId => [`/${operationId}`, { get: { operationId, summary: `Run ${operationId}`, responses: {} } }])),
+  };
+}
+
+describe("registerOpenApiResources", () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    replaceConfigSpecs([buildSpec("Browse API", ["search", "getItem"])]);
+    const server = new McpServer({ name: "test-server", version: "1.0.0" });
+    registerOpenApiResources(server);
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    replaceConfigSpecs([]);
+  });
+
+  it("lists every registered spec and operation", async () => {
+    const { resources } = await client.listResources();
+
+    expect(resources.map(resource => resource.uri).sort()).toEqual([
+      "ebay-spec://Browse%20API",
+      "ebay-spec://Browse%20API/operations/getItem",
+      "ebay-spec://Browse%20API/operations/search",
+    ]);
+    expect(resources.find(resource => resource.uri.endsWith("/search"))?.description).toBe("Run search");
+  });
+
+  it("reads a full spec", async () => {
+    const { contents } = await client.readResource({ uri: "ebay-spec://Browse%20API" });
+
+    expect(contents[0].mimeType).toBe("application/json");
+    expect(JSON.parse((contents[0] as { text: string }).text)).toEqual(buildSpec("Browse API", ["search", "getItem"]));
+  });
+
+  it("reads a single operation as a document holding only that operation", async () => {
+    const { contents } = await client.readResource({ uri: "ebay-spec://Browse%20API/operations/getItem" });
+
+    const doc = JSON.parse((contents[0] as { text: string }).text) as OpenAPIV3.Document;
+    expect(Object.keys(doc.paths)).toEqual(["/getItem"]);
+    expect(doc.paths["/getItem"]?.get?.operationId).toBe("getItem");
+  });
+
+  it("rejects an unknown spec title or operation", async () => {
+    await expect(client.readResource({ uri: "ebay-spec://Order%20API" })).rejects.toThrow("OpenAPI spec Order API not found");
+    await expect(client.readResource({ uri: "ebay-spec://Browse%20API/operations/getOrder" }))
+      .rejects.toThrow("Operation getOrder not found in OpenAPI spec Browse API");
+  });
+
+  it("notifies the client and lists the new spec after a registry change", async () => {
+    const listChanged = vi.fn();
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, listChanged);
+
+    replaceConfigSpecs([buildSpec("Browse API", ["search", "getItem"]), buildSpec("Order API", ["getOrder"])]);
+    await vi.waitFor(() => expect(listChanged).toHaveBeenCalled());
+
+    const { resources } = await client.listResources();
+    expect(resources.map(resource => resource.uri)).toContain("ebay-spec://Order%20API/operations/getOrder");
+  });
+});
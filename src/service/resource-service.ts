@@ -0,0 +1,126 @@
+/**
+ * Resource service for exposing the registered OpenAPI specs and their operations as MCP resources
+ */
+import { type McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { type ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { type OpenAPIV3 } from "openapi-types";
+import { getRegisteredSpec, getRegisteredSpecs, onSpecRegistryChange, stringifyWithoutCycles } from "../helper/spec-registry.js";
+
+const SPEC_URI_TEMPLATE = "ebay-spec://{specTitle}";
+const OPERATION_URI_TEMPLATE = "ebay-spec://{specTitle}/operations/{operationId}";
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+/**
+ * Register resource templates for every spec and operation in the spec registry.
+ * Specs registered later (e.g. fetched by call_ebay_api) are listed too, clients are notified of the change.
+ */
+export function registerOpenApiResources(server: McpServer): void {
+  // registered first, so operation uris are not matched by the broader spec template
+  server.registerResource(
+    "ebay-api-operation",
+    new ResourceTemplate(OPERATION_URI_TEMPLATE, {
+      list: () => ({
+        resources: getRegisteredSpecs().flatMap(spec => listOperations(spec.doc).map(({ operationId, method, path, operation }) => ({
+          uri: buildOperationUri(spec.title, operationId),
+          name: `${spec.title} ${operationId}`,
+          description: operation.summary || `${method.toUpperCase()} ${path}`,
+          mimeType: "application/json",
+        }))),
+      }),
+      complete: {
+        specTitle: completeSpecTitle,
+        operationId: (value, context) => {
+          const spec = getRegisteredSpec(context?.arguments?.specTitle || "");
+          return spec ? listOperations(spec.doc).map(({ operationId }) => operationId).filter(id => id.startsWith(value)) : [];
+        },
+      },
+    }),
+    {
+      description: "A single eBay API operation, as an OpenAPI document holding only that operation",
+      mimeType: "application/json",
+    },
+    (uri, variables) => {
+      const spec = getRegisteredSpec(readVariable(variables.specTitle));
+      const operationId = readVariable(variables.operationId);
+      const found = spec && listOperations(spec.doc).find(item => item.operationId === operationId);
+      if (!spec || !found) {
+        throw new Error(`Operation ${operationId} not found in OpenAPI spec ${readVariable(variables.specTitle)}`);
+      }
+      const pathItem = spec.doc.paths[found.path];
+      const operationDoc: OpenAPIV3.Document = {
+        ...spec.doc,
+        paths: { [found.path]: { parameters: pathItem?.parameters, [found.method]: found.operation } },
+      };
+      return buildJsonResource(uri, operationDoc);
+    },
+  );
+
+  server.registerResource(
+    "ebay-api-spec",
+    new ResourceTemplate(SPEC_URI_TEMPLATE, {
+      list: () => ({
+        resources: getRegisteredSpecs().map(spec => ({
+          uri: buildSpecUri(spec.title),
+          name: spec.title,
+          description: `eBay OpenAPI spec (${spec.source === "config" ? "loaded from config file" : "fetched by call_ebay_api"})`,
+          mimeType: "application/json",
+        })),
+      }),
+      complete: { specTitle: completeSpecTitle },
+    }),
+    {
+      description: "A full eBay OpenAPI spec",
+      mimeType: "application/json",
+    },
+    (uri, variables) => {
+      const spec = getRegisteredSpec(readVariable(variables.specTitle));
+      if (!spec) {
+        throw new Error(`OpenAPI spec ${readVariable(variables.specTitle)} not found`);
+      }
+      return buildJsonResource(uri, spec.doc);
+    },
+  );
+
+  const removeListener = onSpecRegistryChange(() => {
+    if (server.isConnected()) {
+      server.sendResourceListChanged();
+    }
+  });
+  // servers of closed HTTP sessions must not keep listening
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    removeListener();
+    previousOnClose?.();
+  };
+}
+
+function listOperations(doc: OpenAPIV3.Document): { operationId: string; method: string; path: string; operation: OpenAPIV3.OperationObject }[] {
+  return Object.entries(doc.paths || {}).flatMap(([path, pathItem]) => HTTP_METHODS
+    .map(method => ({ method, operation: pathItem?.[method as keyof typeof pathItem] as OpenAPIV3.OperationObject | undefined }))
+    .filter(({ operation }) => operation?.operationId)
+    .map(({ method, operation }) => ({ operationId: operation!.operationId!, method, path, operation: operation! })));
+}
+
+function completeSpecTitle(value: string): string[] {
+  return getRegisteredSpecs().map(spec => spec.title).filter(title => title.startsWith(value));
+}
+
+function buildSpecUri(specTitle: string): string {
+  return `ebay-spec://${encodeURIComponent(specTitle)}`;
+}
+
+function buildOperationUri(specTitle: string, operationId: string): string {
+  return `${buildSpecUri(specTitle)}/operations/${encodeURIComponent(operationId)}`;
+}
+
+function readVariable(value: string | string[] | undefined): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value || "");
+}
+
+function buildJsonResource(uri: URL, doc: OpenAPIV3.Document): ReadResourceResult {
+  return {
+    contents: [
+      { uri: uri.href, mimeType: "application/json", text: stringifyWithoutCycles(doc, 2) },
+    ],
+  };
+}